@@ -12,6 +12,7 @@ import {
 } from "vscode-languageclient/node";
 import { ExecuteCommandParams, ExecuteCommandRequest } from "vscode-languageserver-protocol";
 import { ServerInitializingIndicator } from "./indicator";
+import { showPreview, showWalkthrough } from "./preview";
 
 let client: LanguageClient;
 const loadingIndicator = new ServerInitializingIndicator(() => {
@@ -19,9 +20,13 @@ const loadingIndicator = new ServerInitializingIndicator(() => {
 });
 const cmd_compile = "extension.bgforge.compile";
 const cmd_preview = "extension.bgforge.preview";
+const cmd_walkthrough = "extension.bgforge.walkthrough";
 let previewSrcDir: string;
 const tmpDir = path.join(os.tmpdir(), "bgforge-mls");
-const previewIndexHtml = path.join(tmpDir, "preview", "index.html");
+const previewDir = path.join(tmpDir, "preview");
+const previewIndexHtml = path.join(previewDir, "index.html");
+/** Dialog graphs are shown in a webview, nodes reveal states in the editor on click */
+const dialogLanguages = new Set(["weidu-d", "weidu-d-tpl"]);
 
 export async function activate(context: ExtensionContext) {
     // The server is implemented in node
@@ -33,6 +38,8 @@ export async function activate(context: ExtensionContext) {
     context.subscriptions.push(disposable);
     disposable = vscode.commands.registerCommand(cmd_preview, preview);
     context.subscriptions.push(disposable);
+    disposable = vscode.commands.registerCommand(cmd_walkthrough, walkthrough);
+    context.subscriptions.push(disposable);
     previewSrcDir = context.asAbsolutePath(path.join("preview", "out"));
 
     // If the extension is launched in debug mode then the debug server options are used
@@ -91,20 +98,30 @@ export async function activate(context: ExtensionContext) {
         loadingIndicator.finishedLoadingProject("");
     });
 
-    client.onNotification("bgforge-mls/start-preview", () => {
-        vscode.commands.executeCommand("livePreview.start.preview.atFileString", previewIndexHtml);
+    client.onNotification("bgforge-mls/start-preview", (params: { langId: string }) => {
+        if (dialogLanguages.has(params.langId)) {
+            showPreview(previewDir);
+        } else {
+            vscode.commands.executeCommand(
+                "livePreview.start.preview.atFileString",
+                previewIndexHtml
+            );
+        }
     });
 }
 
 function preview() {
-    if (!vscode.extensions.getExtension("ms-vscode.live-server")) {
+    const document = vscode.window.activeTextEditor.document;
+    if (
+        !dialogLanguages.has(document.languageId) &&
+        !vscode.extensions.getExtension("ms-vscode.live-server")
+    ) {
         conlog("Live preview not installed, pass");
         vscode.window.showInformationMessage(
-            "Install Microsoft Live Preview extenstion (ms-vscode.live-server) to view callgraphs."
+            "Install Microsoft Live Preview extenstion (ms-vscode.live-server) to view graphs."
         );
         return;
     }
-    const document = vscode.window.activeTextEditor.document;
     const uri = document.uri;
     const params: ExecuteCommandParams = {
         command: cmd_preview,
@@ -120,6 +137,24 @@ function preview() {
     client.sendRequest(ExecuteCommandRequest.type, params);
 }
 
+async function walkthrough() {
+    const document = vscode.window.activeTextEditor.document;
+    const uri = document.uri;
+    const params: ExecuteCommandParams = {
+        command: cmd_walkthrough,
+        arguments: [
+            {
+                uri: uri.toString(),
+                scheme: uri.scheme,
+            },
+        ],
+    };
+    const data = await client.sendRequest(ExecuteCommandRequest.type, params);
+    if (data) {
+        showWalkthrough(previewSrcDir, data, `Walkthrough: ${path.basename(uri.fsPath)}`);
+    }
+}
+
 export async function deactivate(): Promise<void> {
     if (!client) {
         return undefined;
@@ -0,0 +1,115 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/** Sent by the page when a node with a location is clicked */
+interface RevealMessage {
+    command: "reveal";
+    uri: string;
+    line: number;
+    character: number;
+}
+
+/** Sent by the walkthrough page when it's ready to receive data */
+interface ReadyMessage {
+    command: "ready";
+}
+
+let panel: vscode.WebviewPanel | undefined;
+let walkthroughPanel: vscode.WebviewPanel | undefined;
+/** Sent to the walkthrough page once it's loaded */
+let walkthroughData: unknown;
+
+async function reveal(message: RevealMessage | ReadyMessage) {
+    if (message.command != "reveal") {
+        return;
+    }
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(message.uri));
+    const position = new vscode.Position(message.line, message.character);
+    await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.One,
+        selection: new vscode.Range(position, position),
+    });
+}
+
+/**
+ * Show the dialog graph page the server has put into the preview directory.
+ * The panel is reused, so that there's only one preview.
+ */
+export function showPreview(previewDir: string) {
+    const dirUri = vscode.Uri.file(previewDir);
+    if (!panel) {
+        panel = vscode.window.createWebviewPanel(
+            "bgforgePreview",
+            "BGforge MLS preview",
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            { enableScripts: true, localResourceRoots: [dirUri] }
+        );
+        panel.onDidDispose(() => {
+            panel = undefined;
+        });
+        panel.webview.onDidReceiveMessage(reveal);
+    }
+    panel.webview.html = pageHtml(panel, previewDir, "index.html");
+    panel.reveal(vscode.ViewColumn.Beside, true);
+}
+
+/**
+ * Page html for a webview. Only the page's own scripts may run, and resources may only come
+ * from the local resource roots.
+ */
+function pageHtml(webviewPanel: vscode.WebviewPanel, dir: string, fileName: string) {
+    const webview = webviewPanel.webview;
+    const base = webview.asWebviewUri(vscode.Uri.file(dir)).toString();
+    const nonce = crypto.randomBytes(16).toString("base64");
+    const csp = [
+        "default-src 'none'",
+        `style-src ${webview.cspSource}`,
+        `img-src ${webview.cspSource}`,
+        `connect-src ${webview.cspSource}`,
+        `script-src 'nonce-${nonce}'`,
+    ].join("; ");
+    const html = fs.readFileSync(path.join(dir, fileName), "utf8");
+    // relative paths in the page are resolved in its directory,
+    // and the timestamp makes the page reload with new data even if the html is the same
+    return html
+        .replace(
+            "<head>",
+            [
+                "<head>",
+                `<meta http-equiv="Content-Security-Policy" content="${csp}" />`,
+                `<base href="${base}/" />`,
+                `<meta name="generated" content="${Date.now()}" />`,
+            ].join("\n")
+        )
+        .replace(/<script /g, `<script nonce="${nonce}" `);
+}
+
+/**
+ * Show the dialog walkthrough page. Data is posted to the page when it asks for it.
+ * @param pageDir directory of the walkthrough page, the extension's own
+ */
+export function showWalkthrough(pageDir: string, data: unknown, title: string) {
+    walkthroughData = data;
+    if (!walkthroughPanel) {
+        walkthroughPanel = vscode.window.createWebviewPanel(
+            "bgforgeWalkthrough",
+            title,
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, localResourceRoots: [vscode.Uri.file(pageDir)] }
+        );
+        walkthroughPanel.onDidDispose(() => {
+            walkthroughPanel = undefined;
+        });
+        walkthroughPanel.webview.onDidReceiveMessage((message: RevealMessage | ReadyMessage) => {
+            if (message.command == "ready") {
+                walkthroughPanel?.webview.postMessage({ command: "data", data: walkthroughData });
+            }
+            return reveal(message);
+        });
+    }
+    walkthroughPanel.title = title;
+    walkthroughPanel.webview.html = pageHtml(walkthroughPanel, pageDir, "walkthrough.html");
+    walkthroughPanel.reveal(vscode.ViewColumn.Beside);
+}
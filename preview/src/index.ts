@@ -3,7 +3,17 @@ import fcose from "cytoscape-fcose";
 
 cytoscape.use(fcose);
 
-fetch("data.json")
+/** Available when the page is shown in a VS Code webview */
+// eslint-disable-next-line no-unused-vars
+declare function acquireVsCodeApi(): { postMessage: (message: unknown) => void };
+const vscode = typeof acquireVsCodeApi == "function" ? acquireVsCodeApi() : undefined;
+
+/** Editor theme color in a webview, the fallback elsewhere */
+function themeColor(name: string, fallback: string) {
+    return getComputedStyle(document.body).getPropertyValue(name).trim() || fallback;
+}
+
+fetch("data.json", { cache: "no-store" })
     .then(function (response) {
         return response.text();
     })
@@ -111,6 +121,8 @@ const options = {
 };
 
 function drawGraph(elements) {
+    const foreground = themeColor("--vscode-editor-foreground", "#000");
+    const background = themeColor("--vscode-editor-background", "#fff");
     const cy = cytoscape({
         container: document.getElementById("cy"),
         style: [
@@ -120,11 +132,45 @@ function drawGraph(elements) {
                     width: 50,
                     height: 50,
                     "background-color": "#61bffc",
+                    color: foreground,
                     content: "data(id)",
                     "text-halign": "center",
                     "text-valign": "center",
                 },
             },
+            {
+                // TP2 components
+                selector: "node[label]",
+                css: {
+                    shape: "round-rectangle",
+                    content: "data(label)",
+                    width: "label",
+                    height: "label",
+                    padding: "10px",
+                },
+            },
+            {
+                // D states: label and text
+                selector: "node[location]",
+                css: {
+                    "text-wrap": "wrap",
+                    "text-max-width": "300px",
+                },
+            },
+            {
+                selector: "node[kind = 'group']",
+                css: {
+                    "background-color": "#eef6fc",
+                    "text-valign": "top",
+                },
+            },
+            {
+                // components of other mods
+                selector: "node[kind = 'external']",
+                css: {
+                    "background-color": "#ccc",
+                },
+            },
             {
                 selector: "edge",
                 css: {
@@ -135,8 +181,40 @@ function drawGraph(elements) {
                     "curve-style": "bezier",
                 },
             },
+            {
+                // D transitions: reply and trigger
+                selector: "edge[label]",
+                css: {
+                    label: "data(label)",
+                    "font-size": "10px",
+                    "text-wrap": "wrap",
+                    "text-max-width": "200px",
+                    color: foreground,
+                    "text-background-color": background,
+                    "text-background-opacity": 0.8,
+                },
+            },
+            {
+                // D COPY_TRANS
+                selector: "edge[kind = 'copy']",
+                css: {
+                    "line-style": "dashed",
+                },
+            },
+            {
+                selector: "edge[kind = 'forbid']",
+                css: {
+                    "line-color": "#f99",
+                    "target-arrow-color": "#f99",
+                    "target-arrow-shape": "tee",
+                    "line-style": "dashed",
+                },
+            },
         ],
         elements: elements,
     });
+    cy.on("tap", "node[location]", (event) => {
+        vscode?.postMessage({ command: "reveal", ...event.target.data("location") });
+    });
     cy.layout(options).run();
 }
@@ -0,0 +1,274 @@
+/**
+ * D dialog walkthrough
+ *
+ * Plays a dialog through: shows what the NPC says and the replies, follows the chosen one.
+ * Triggers can't be evaluated outside of the game, so the tester toggles them manually.
+ * Data comes from the extension, see `server/src/weidu/walkthrough.ts`.
+ */
+
+interface Transition {
+    reply?: string;
+    trigger?: string;
+    action?: string;
+    next?: string;
+    copy?: boolean;
+}
+
+interface Location {
+    uri: string;
+    line: number;
+    character: number;
+}
+
+interface State {
+    id: string;
+    dialog: string;
+    label: string;
+    say: { speaker: string; text: string }[];
+    trigger?: string;
+    weight?: number;
+    transitions: Transition[];
+    location: Location;
+}
+
+interface Walkthrough {
+    dialogs: string[];
+    states: State[];
+}
+
+// eslint-disable-next-line no-unused-vars
+declare function acquireVsCodeApi(): { postMessage: (message: unknown) => void };
+const vscode = acquireVsCodeApi();
+
+let states = new Map<string, State>();
+let dialogs: string[] = [];
+/** Dialog chosen on the start page */
+let dialog = "";
+/** Trigger text => is it true. Triggers are true until toggled. */
+const triggers = new Map<string, boolean>();
+/** Ids of visited states, the last one is current */
+let visited: string[] = [];
+/** The dialog has ended, or a transition led to a state that isn't available */
+let stopped: { message: string } | undefined;
+
+function element<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+    text = "",
+    className = ""
+): HTMLElementTagNameMap[K] {
+    const result = document.createElement(tag);
+    result.textContent = text;
+    if (className) {
+        result.className = className;
+    }
+    return result;
+}
+
+function isTrue(trigger?: string) {
+    return !trigger || triggers.get(trigger) !== false;
+}
+
+/** Checkbox toggling a trigger everywhere it's used */
+function triggerToggle(trigger: string) {
+    const label = element("label", "", "trigger");
+    const checkbox = element("input");
+    checkbox.type = "checkbox";
+    checkbox.checked = isTrue(trigger);
+    checkbox.addEventListener("change", () => {
+        triggers.set(trigger, checkbox.checked);
+        render();
+    });
+    label.append(checkbox, element("code", trigger));
+    return label;
+}
+
+function revealLink(location: Location) {
+    const link = element("a", "show in editor", "reveal");
+    link.href = "#";
+    link.addEventListener("click", (event) => {
+        event.preventDefault();
+        vscode.postMessage({ command: "reveal", ...location });
+    });
+    return link;
+}
+
+function button(text: string, onClick: () => void, disabled = false) {
+    const result = element("button", text);
+    result.disabled = disabled;
+    result.addEventListener("click", onClick);
+    return result;
+}
+
+/** Entry states of a dialog, in the order the game checks them */
+function entries(name: string) {
+    return [...states.values()]
+        .filter((x) => x.dialog == name && (x.trigger || x.weight !== undefined))
+        .map((x, i) => ({ state: x, index: i }))
+        .sort((a, b) => (a.state.weight || 0) - (b.state.weight || 0) || a.index - b.index)
+        .map((x) => x.state);
+}
+
+/** Transitions of a state, with `COPY_TRANS` replaced by the copied transitions */
+function transitions(state: State, seen = new Set<string>()): Transition[] {
+    seen.add(state.id);
+    const result: Transition[] = [];
+    for (const transition of state.transitions) {
+        const copied = transition.copy && transition.next ? states.get(transition.next) : undefined;
+        if (!transition.copy) {
+            result.push(transition);
+        } else if (copied && !seen.has(copied.id)) {
+            result.push(...transitions(copied, seen));
+        } else {
+            result.push({ reply: `[COPY_TRANS ${transition.next}]`, next: transition.next });
+        }
+    }
+    return result;
+}
+
+function start(state: State) {
+    visited = [state.id];
+    stopped = undefined;
+    render();
+}
+
+function follow(transition: Transition) {
+    if (!transition.next) {
+        stopped = { message: "End of dialog." };
+    } else if (!states.has(transition.next)) {
+        stopped = { message: `State ${transition.next} isn't in the workspace.` };
+    } else {
+        visited.push(transition.next);
+    }
+    render();
+}
+
+function back() {
+    if (stopped) {
+        stopped = undefined;
+    } else {
+        visited.pop();
+    }
+    render();
+}
+
+/** Entry states of the chosen dialog, and any state to start from */
+function renderStart(container: HTMLElement) {
+    if (!dialogs.includes(dialog)) {
+        dialog = dialogs[0];
+    }
+    const select = element("select");
+    for (const name of dialogs) {
+        const option = element("option", name);
+        option.value = name;
+        option.selected = name == dialog;
+        select.append(option);
+    }
+    select.addEventListener("change", () => {
+        dialog = select.value;
+        render();
+    });
+    container.append(element("h2", "Dialog"), select);
+
+    const dialogEntries = entries(dialog);
+    const first = dialogEntries.find((x) => isTrue(x.trigger));
+    if (first) {
+        const row = element("p", "", "entry");
+        row.append(button(`Start: ${first.label}`, () => start(first)));
+        container.append(row);
+    } else {
+        container.append(element("p", "No entry state is active, choose a state to start with."));
+    }
+    for (const state of dialogEntries) {
+        const row = element("div", "", state == first ? "entry first" : "entry");
+        const weight = state.weight !== undefined ? ` (weight ${state.weight})` : "";
+        row.append(button(`${state.label}${weight}`, () => start(state)));
+        if (state.trigger) {
+            row.append(triggerToggle(state.trigger));
+        }
+        container.append(row);
+    }
+
+    const other = element("select");
+    for (const state of states.values()) {
+        if (state.dialog == dialog) {
+            const option = element("option", state.label);
+            option.value = state.id;
+            other.append(option);
+        }
+    }
+    const row = element("div", "", "entry");
+    row.append(
+        other,
+        button("Start from state", () => {
+            const state = states.get(other.value);
+            if (state) {
+                start(state);
+            }
+        })
+    );
+    container.append(row);
+}
+
+function renderState(container: HTMLElement, state: State) {
+    const header = element("h2", `${state.dialog}: ${state.label} `);
+    header.append(revealLink(state.location));
+    container.append(header);
+    for (const say of state.say) {
+        const line = element("p", "", "say");
+        line.append(element("span", `${say.speaker}: `, "speaker"), say.text);
+        container.append(line);
+    }
+    if (stopped) {
+        container.append(element("p", stopped.message, "stopped"));
+        return;
+    }
+    const list = element("ol", "", "replies");
+    for (const transition of transitions(state)) {
+        const item = element("li");
+        const enabled = isTrue(transition.trigger);
+        const text = transition.reply || (transition.next ? "[continue]" : "[end]");
+        item.append(button(text, () => follow(transition), !enabled));
+        if (transition.trigger) {
+            item.append(triggerToggle(transition.trigger));
+        }
+        if (transition.action) {
+            item.append(element("code", `DO ${transition.action}`, "action"));
+        }
+        list.append(item);
+    }
+    container.append(list);
+}
+
+function render() {
+    const container = document.getElementById("walkthrough") as HTMLElement;
+    container.replaceChildren();
+    const current = states.get(visited[visited.length - 1]);
+    if (!current) {
+        renderStart(container);
+        return;
+    }
+    const toolbar = element("div", "", "toolbar");
+    toolbar.append(
+        button("Back", back),
+        button("Restart", () => {
+            visited = [];
+            stopped = undefined;
+            render();
+        })
+    );
+    container.append(toolbar);
+    renderState(container, current);
+}
+
+window.addEventListener("message", (event) => {
+    if (event.data.command != "data") {
+        return;
+    }
+    const data: Walkthrough = event.data.data;
+    states = new Map(data.states.map((x) => [x.id, x]));
+    dialogs = data.dialogs;
+    visited = [];
+    stopped = undefined;
+    render();
+});
+vscode.postMessage({ command: "ready" });
@@ -4,8 +4,10 @@ import { pathToFileURL } from "node:url";
 import * as os from "os";
 import * as path from "path";
 import { fileURLToPath } from "url";
-import { Diagnostic, DiagnosticSeverity, Position } from "vscode-languageserver/node";
-import { connection } from "./server";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Diagnostic, DiagnosticSeverity, Position, Range } from "vscode-languageserver/node";
+import { update as updateDiagnostics } from "./diagnostics";
+import { connection, documents } from "./server";
 
 export function fname(uri: string) {
     return path.basename(uri);
@@ -108,7 +110,7 @@ export function sendParseResult(parseResult: ParseResult, mainUri: string, tmpUr
 
     for (const [uri, diag] of diagnostics) {
         // Send the computed diagnostics to VSCode.
-        connection.sendDiagnostics({ uri: uri, diagnostics: [diag] });
+        updateDiagnostics(uri, "compile", [diag]);
     }
 }
 
@@ -119,8 +121,10 @@ export function isSubpath(outerPath: string, innerPath: string) {
     if (outerPath === undefined) {
         return false;
     }
-    const innerReal = fs.realpathSync(innerPath);
-    const outerReal = fs.realpathSync(outerPath);
+    // deleted files and missing directories can't be resolved
+    const realPath = (x: string) => (fs.existsSync(x) ? fs.realpathSync(x) : x);
+    const innerReal = realPath(innerPath);
+    const outerReal = realPath(outerPath);
     if (innerReal.startsWith(outerReal)) {
         return true;
     }
@@ -184,6 +188,23 @@ export function pathToUri(filePath: string) {
     return uri.toString();
 }
 
+export function openDocumentsByPath() {
+    return new Map(documents.all().map((x) => [uriToPath(x.uri), x]));
+}
+
+/** Open documents are read in their current, possibly unsaved, state */
+export function readFile(filePath: string, openDocuments: Map<string, TextDocument>) {
+    const document = openDocuments.get(filePath);
+    if (document) {
+        return { uri: document.uri, text: document.getText() };
+    }
+    try {
+        return { uri: pathToUri(filePath), text: fs.readFileSync(filePath, "utf8") };
+    } catch (err) {
+        conlog(err);
+    }
+}
+
 // https://stackoverflow.com/questions/72119570/why-doesnt-vs-code-typescript-recognize-the-indices-property-on-the-result-of-r
 // https://github.com/microsoft/TypeScript/issues/44227
 export type RegExpMatchArrayWithIndices = RegExpMatchArray & { indices: Array<[number, number]> };
@@ -231,6 +252,29 @@ export function symbolAtPosition(text: string, position: Position) {
     return result;
 }
 
+/**
+ * Get range of the word under cursor, including the case when cursor is right after the word.
+ * Unlike `symbolAtPosition`, this never extends to tra references.
+ */
+export function wordRangeAtPosition(text: string, position: Position) {
+    const lines = text.split(/\r?\n/g);
+    const str = lines[position.line];
+    if (str === undefined) {
+        return;
+    }
+    for (const match of str.matchAll(/\w+/g)) {
+        const start = match.index as number;
+        const end = start + match[0].length;
+        if (start <= position.character && position.character <= end) {
+            const range: Range = {
+                start: { line: position.line, character: start },
+                end: { line: position.line, character: end },
+            };
+            return { word: match[0], range: range };
+        }
+    }
+}
+
 function onlyDigits(value: string) {
     return /^\d+$/.test(value);
 }
@@ -2,6 +2,7 @@ import * as fs from "fs";
 import { TextDocument } from "vscode-languageserver-textdocument";
 import * as path from "path";
 import { conlog, isDirectory, pathToUri, tmpDir } from "./common";
+import * as diagnostics from "./diagnostics";
 import * as fallout from "./fallout";
 import { connection, getDocumentSettings } from "./server";
 import * as tbaf from "./tbaf/index";
@@ -41,7 +42,7 @@ export async function canCompile(document: TextDocument) {
 export function clearDiagnostics(uri: string) {
     // Clear old diagnostics. For some reason not working in common.send_parse_result.
     // Probably due to async?
-    connection.sendDiagnostics({ uri: uri, diagnostics: [] });
+    diagnostics.clear(uri, "compile");
 }
 
 /**
@@ -1,6 +1,10 @@
-import { Location } from "vscode-languageserver";
+import { Location, SymbolKind } from "vscode-languageserver";
 
-export interface Data extends Map<string, Location> {}
+/** kind is used for workspace symbols */
+export interface LocationEx extends Location {
+    kind: SymbolKind;
+}
+export interface Data extends Map<string, LocationEx> {}
 
 /** Intermediate result from parsing */
 export interface Definition {
@@ -8,11 +12,12 @@ export interface Definition {
     line: number;
     start: number;
     end: number;
+    kind: SymbolKind;
 }
 /** All intermediate results from a file */
 export interface Definitions extends Array<Definition> {}
 
-/** Take regex parse result list and turn it into a proper definition map */
+/** Take parse result list and turn it into a proper definition map */
 export function load(uri: string, data: Definitions) {
     const definitions: Data = new Map();
     for (const def of data) {
@@ -20,7 +25,7 @@ export function load(uri: string, data: Definitions) {
             start: { line: def.line, character: def.start },
             end: { line: def.line, character: def.end },
         };
-        const item = { uri: uri, range: range };
+        const item = { uri: uri, range: range, kind: def.kind };
         definitions.set(def.name, item);
     }
     return definitions;
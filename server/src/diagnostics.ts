@@ -0,0 +1,33 @@
+import { Diagnostic } from "vscode-languageserver/node";
+import { connection } from "./server";
+
+/**
+ * `compile` diagnostics come from external compilers, `lint` from in-process checks.
+ * Publishing replaces all diagnostics of a file, so they are kept per source and sent together.
+ */
+export type Source = "compile" | "lint";
+
+const store: Map<string, Map<Source, Diagnostic[]>> = new Map();
+
+/** Replace diagnostics of `uri` from `source`, keeping the other sources */
+export function update(uri: string, source: Source, diagnostics: Diagnostic[]) {
+    let sources = store.get(uri);
+    if (!sources) {
+        sources = new Map();
+        store.set(uri, sources);
+    }
+    sources.set(source, diagnostics);
+
+    const all: Diagnostic[] = [];
+    for (const list of sources.values()) {
+        all.push(...list);
+    }
+    if (all.length == 0) {
+        store.delete(uri);
+    }
+    connection.sendDiagnostics({ uri: uri, diagnostics: all });
+}
+
+export function clear(uri: string, source: Source) {
+    update(uri, source, []);
+}
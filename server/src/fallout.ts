@@ -3,14 +3,23 @@ import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import { CompletionItemKind, ParameterInformation } from "vscode-languageserver";
-import { MarkupKind } from "vscode-languageserver/node";
+import {
+    CallHierarchyIncomingCall,
+    CallHierarchyItem,
+    CallHierarchyOutgoingCall,
+    MarkupKind,
+    Position,
+    SymbolKind,
+} from "vscode-languageserver/node";
 import {
     conlog,
     findFiles,
+    isDirectory,
+    openDocumentsByPath,
     ParseItemList,
     ParseResult,
     pathToUri,
-    RegExpMatchArrayWithIndices,
+    readFile,
     sendParseResult,
     uriToPath,
 } from "./common";
@@ -21,9 +30,14 @@ import * as jsdoc from "./jsdoc";
 import { HeaderData as LanguageHeaderData } from "./language";
 import * as pool from "./pool";
 import { Edge, Node } from "./preview";
+import * as references from "./references";
 import { connection, documents } from "./server";
 import { SSLsettings } from "./settings";
 import * as signature from "./signature";
+import * as ast from "./ssl/ast";
+import { positionConverter, Token, tokenRange } from "./ssl/lexer";
+import { parse } from "./ssl/parser";
+import { isConstant } from "./ssl/symbols";
 import { ssl_compile as ssl_builtin_compiler } from "./sslc/ssl_compiler";
 
 interface FalloutHeaderData {
@@ -286,87 +300,57 @@ function jsdocToSig(label: string, jsd: jsdoc.JSdoc, uri: string) {
 }
 
 function findSymbols(text: string) {
+    const script = parse(text);
+
     // defines
     const defineList: Macros = [];
-    const defineRegex =
-        /((\/\*\*\s*\n([^*]|(\*(?!\/)))*\*\/)\r?\n)?#define[ \t]+(\w+)(?:\(([^)]+)\))?[ \t]+(.+)/gm;
-    const constantRegex = /^[A-Z][A-Z0-9_]+$/;
-    let matches = text.matchAll(defineRegex);
-    for (const m of matches) {
-        const defineName = m[5];
-        let defineFirstline = m[7];
-        defineFirstline = defineFirstline.trimEnd();
-
-        // check if it's multiline
-        let multiline = false;
-        if (defineFirstline.endsWith("\\")) {
-            multiline = true;
-        }
-
-        // check if it has vars
+    for (const node of script.preprocessor) {
+        if (node.type != "define") {
+            continue;
+        }
+        const defineName = node.name.name;
         let defineDetail = defineName;
-        if (m[6]) {
+        if (node.params) {
             // function-like macro
-            const defineVars = m[6];
-            defineDetail = `${defineName}(${defineVars})`;
-        }
-
-        // check if it looks like a constant
-        let constant = false;
-        if (!multiline && constantRegex.test(defineName)) {
-            constant = true;
+            defineDetail = `${defineName}(${node.paramsText})`;
         }
-
         const item: Macro = {
             label: defineName,
-            constant: constant,
+            constant: isConstant(node),
             detail: defineDetail,
-            multiline: multiline,
-            firstline: defineFirstline,
+            multiline: node.multiline,
+            firstline: node.body.split("\n")[0].trimEnd(),
         };
-        // if jsdoc found
-        if (m[2]) {
-            const jsd = jsdoc.parse(m[2]);
+        if (node.doc) {
+            const jsd = jsdoc.parse(node.doc.value);
             item.jsdoc = jsd;
             item.detail = jsdocToDetail(defineName, jsd, "macro");
-            defineList.push(item);
         }
         defineList.push(item);
     }
 
-    // procedures
+    // procedures, forward declarations skipped
     const procList: Procedures = [];
-    // multiline jsdoc regex: (\/\*\*\s*\n([^*]|(\*(?!\/)))*\*\/)
-    // from here https://stackoverflow.com/questions/35905181/regex-for-jsdoc-comments
-    // procedure regex: procedure[\s]+(\w+)(?:\(([^)]+)\))?[\s]+begin
-    const procRegex =
-        /((\/\*\*\s*\n([^*]|(\*(?!\/)))*\*\/)\r?\n)?procedure[\s]+(\w+)(?:\(([^)]+)\))?[\s]+begin/gm;
-    matches = text.matchAll(procRegex);
-    for (const m of matches) {
-        const procName = m[5];
-        let procDetail = procName;
-        if (m[6]) {
-            procDetail = `procedure ${procName}(${m[6]})`;
-        } else {
-            procDetail = `procedure ${procName}()`;
-        }
-
-        // if jsdoc found
-        if (m[2]) {
-            const jsd = jsdoc.parse(m[2]);
+    for (const node of script.body) {
+        if (node.type != "procedure" || !node.body) {
+            continue;
+        }
+        const procName = node.name.name;
+        const params = (node.paramsText || "").replace(/\s+/g, " ").trim();
+        let procDetail = `procedure ${procName}(${params})`;
+        if (node.doc) {
+            const jsd = jsdoc.parse(node.doc.value);
             // If JSdoc has no arguments specified, but function has them, keep the default detail form
-            if (!(m[6] && jsd.args.length == 0)) {
+            if (!(params && jsd.args.length == 0)) {
                 // else, use detail from JSdoc.
                 procDetail = jsdocToDetail(procName, jsd);
             }
-            const item = { label: procName, detail: procDetail, jsdoc: jsd };
-            procList.push(item);
+            procList.push({ label: procName, detail: procDetail, jsdoc: jsd });
         } else {
-            const item = { label: procName, detail: procDetail };
-            procList.push(item);
+            procList.push({ label: procName, detail: procDetail });
         }
     }
-    const definitions = findDefinitions(text);
+    const definitions = findDefinitions(script);
 
     const result: FalloutHeaderData = {
         macros: defineList,
@@ -376,42 +360,315 @@ function findSymbols(text: string) {
     return result;
 }
 
-function findDefinitions(text: string) {
-    const definitions = [];
-    const lines = text.split("\n");
-    const procRegex = /^procedure[\s]+(\w+)(?:\(([^)]+)\))?[\s]+begin/d;
-    const defineRegex = /^#define[ \t]+(\w+)(?:\(([^)]+)\))?[ \t]+(.+)/d;
-    for (let i = 0; i < lines.length; i++) {
-        const l = lines[i];
-        let match = procRegex.exec(l);
-        if (match) {
-            const name = match[1];
-            const index = (match as RegExpMatchArrayWithIndices).indices[1];
-            const item: definition.Definition = {
-                name: name,
-                line: i,
-                start: index[0],
-                end: index[1],
-            };
-            definitions.push(item);
-        } else {
-            match = defineRegex.exec(l);
-            if (match) {
-                const name = match[1];
-                const index = (match as RegExpMatchArrayWithIndices).indices[1];
-                const item: definition.Definition = {
-                    name: name,
-                    line: i,
-                    start: index[0],
-                    end: index[1],
-                };
-                definitions.push(item);
-            }
+function findDefinitions(script: ast.Script) {
+    const definitions: definition.Definitions = [];
+    const add = (name: ast.Identifier, kind: SymbolKind) => {
+        definitions.push({
+            name: name.name,
+            line: name.token.line,
+            start: name.token.character,
+            end: name.token.character + name.name.length,
+            kind: kind,
+        });
+    };
+    for (const node of script.body) {
+        if (node.type == "procedure" && node.body) {
+            add(node.name, SymbolKind.Function);
+        }
+    }
+    for (const node of script.preprocessor) {
+        if (node.type == "define") {
+            add(node.name, isConstant(node) ? SymbolKind.Constant : SymbolKind.Field);
         }
     }
     return definitions;
 }
 
+export function isIdentifier(name: string) {
+    return /^[A-Za-z_]\w*$/.test(name);
+}
+
+function isInside(token: Token, node: ast.Procedure) {
+    return token.start >= node.start && token.end <= node.end;
+}
+
+/** Identifier tokens of the script, including macro bodies */
+function identifierTokens(script: ast.Script) {
+    const tokens = [...script.tokens];
+    for (const node of script.preprocessor) {
+        if (node.type == "define") {
+            tokens.push(node.name.token, ...node.bodyTokens);
+        }
+    }
+    return tokens.filter((x) => x.kind == "identifier");
+}
+
+/** Procedure in which `symbol` at the position is a parameter or a local variable */
+function localScope(script: ast.Script, symbol: string, position: Position) {
+    const token = identifierTokens(script).find(
+        (x) =>
+            x.value == symbol &&
+            x.line == position.line &&
+            x.character <= position.character &&
+            position.character <= x.character + x.value.length
+    );
+    if (token) {
+        return ast.localScopes(script, symbol).find((x) => isInside(token, x));
+    }
+}
+
+/**
+ * All occurrences of `symbol` in a single file, including macro bodies.
+ * @param scope procedure of a local `symbol`, only occurrences there are returned.
+ * Without it, procedures with their own `symbol` are skipped.
+ */
+function findFileReferences(
+    uri: string,
+    script: ast.Script,
+    symbol: string,
+    scope?: ast.Procedure
+) {
+    const declarations = ast.declarationOffsets(script);
+    const properties = ast.propertyOffsets(script);
+    const shadowing = scope ? [] : ast.localScopes(script, symbol);
+
+    const result: references.References = [];
+    for (const token of identifierTokens(script)) {
+        if (token.value != symbol || properties.has(token.start)) {
+            continue;
+        }
+        if (scope ? !isInside(token, scope) : shadowing.some((x) => isInside(token, x))) {
+            continue;
+        }
+        result.push({
+            uri: uri,
+            range: tokenRange(token),
+            definition: declarations.has(token.start),
+        });
+    }
+    result.sort((a, b) => {
+        if (a.range.start.line != b.range.start.line) {
+            return a.range.start.line - b.range.start.line;
+        }
+        return a.range.start.character - b.range.start.character;
+    });
+    return result;
+}
+
+/**
+ * Scripts and headers which can use header symbols: everything in the workspace,
+ * plus headers from the external headers directories.
+ * @returns absolute paths
+ */
+function referenceFiles(workspaceRoot: string, externalHeadersDirectories: string[]) {
+    const files: string[] = [];
+    if (workspaceRoot !== undefined) {
+        for (const ext of ["ssl", "h"]) {
+            const relPaths = findFiles(workspaceRoot, ext);
+            files.push(...relPaths.map((x) => path.join(workspaceRoot, x)));
+        }
+    }
+    for (const dir of externalHeadersDirectories) {
+        if (isDirectory(dir)) {
+            const relPaths = findFiles(dir, "h");
+            files.push(...relPaths.map((x) => path.join(dir, x)));
+        }
+    }
+    return [...new Set(files)];
+}
+
+/**
+ * Find all usages of a procedure, macro or variable.
+ * Parameters and local variables are searched for in their procedure only.
+ * Symbols defined in the current script (not header) can't be seen from elsewhere,
+ * so they are searched for in that script only.
+ * Everything else is searched for in all scripts and headers (the same set `loadHeaders` walks).
+ * Open documents are searched in their current, possibly unsaved, state.
+ */
+export function findReferences(
+    uri: string,
+    text: string,
+    symbol: string,
+    position: Position,
+    workspaceRoot: string,
+    externalHeadersDirectories: string[]
+) {
+    if (!isIdentifier(symbol)) {
+        return [];
+    }
+
+    const script = parse(text);
+    const scope = localScope(script, symbol, position);
+    const result = findFileReferences(uri, script, symbol, scope);
+    if (scope || (!isHeader(uri) && result.some((x) => x.definition))) {
+        return result;
+    }
+
+    const openDocuments = openDocumentsByPath();
+    const currentPath = uriToPath(uri);
+    for (const filePath of referenceFiles(workspaceRoot, externalHeadersDirectories)) {
+        if (filePath == currentPath) {
+            continue;
+        }
+        const file = readFile(filePath, openDocuments);
+        // quick check before parsing
+        if (!file || !file.text.includes(symbol)) {
+            continue;
+        }
+        result.push(...findFileReferences(file.uri, parse(file.text), symbol));
+    }
+    return result;
+}
+
+/** Procedures with a body in a parsed script or header */
+interface CallFile {
+    uri: string;
+    procedures: Map<string, ast.Procedure>;
+    positionAt: ReturnType<typeof positionConverter>;
+}
+
+function callFile(uri: string, text: string) {
+    const procedures = new Map<string, ast.Procedure>();
+    for (const node of parse(text).body) {
+        if (node.type == "procedure" && node.body && !procedures.has(node.name.name)) {
+            procedures.set(node.name.name, node);
+        }
+    }
+    const result: CallFile = {
+        uri: uri,
+        procedures: procedures,
+        positionAt: positionConverter(text),
+    };
+    return result;
+}
+
+function callItem(file: CallFile, procedure: ast.Procedure) {
+    const item: CallHierarchyItem = {
+        name: procedure.name.name,
+        kind: SymbolKind.Function,
+        uri: file.uri,
+        range: { start: file.positionAt(procedure.start), end: file.positionAt(procedure.end) },
+        selectionRange: tokenRange(procedure.name.token),
+        detail: path.basename(uriToPath(file.uri)),
+    };
+    return item;
+}
+
+/**
+ * Procedure defined in a header. Procedures in other scripts are not visible.
+ * @param files parsed files cache
+ */
+function headerProcedure(
+    name: string,
+    definitions: definition.Data,
+    files: Map<string, CallFile | undefined>
+) {
+    const location = definitions.get(name);
+    if (!location || location.kind != SymbolKind.Function || !isHeader(location.uri)) {
+        return;
+    }
+    if (!files.has(location.uri)) {
+        const text = readFile(uriToPath(location.uri), openDocumentsByPath());
+        files.set(location.uri, text ? callFile(location.uri, text.text) : undefined);
+    }
+    const file = files.get(location.uri);
+    const procedure = file?.procedures.get(name);
+    if (file && procedure) {
+        return callItem(file, procedure);
+    }
+}
+
+function isHeader(uri: string) {
+    return uri.toLowerCase().endsWith(".h");
+}
+
+/**
+ * Procedure `symbol`, defined in the script itself or in a header
+ * @param definitions known definitions, only those from headers are used
+ */
+export function prepareCallHierarchy(
+    uri: string,
+    text: string,
+    symbol: string,
+    definitions: definition.Data
+) {
+    const file = callFile(uri, text);
+    const procedure = file.procedures.get(symbol);
+    if (procedure) {
+        return [callItem(file, procedure)];
+    }
+    const item = headerProcedure(symbol, definitions, new Map());
+    if (item) {
+        return [item];
+    }
+}
+
+/**
+ * Procedures calling `item`.
+ * Procedures defined in scripts are only searched for in the same script, just like references.
+ */
+export function incomingCalls(
+    item: CallHierarchyItem,
+    workspaceRoot: string,
+    externalHeadersDirectories: string[]
+) {
+    const name = item.name;
+    const itemPath = uriToPath(item.uri);
+    const paths = [itemPath];
+    if (isHeader(item.uri)) {
+        paths.push(...referenceFiles(workspaceRoot, externalHeadersDirectories));
+    }
+    const openDocuments = openDocumentsByPath();
+    const result: CallHierarchyIncomingCall[] = [];
+    for (const filePath of new Set(paths)) {
+        const text = readFile(filePath, openDocuments);
+        if (!text || !text.text.includes(name)) {
+            continue;
+        }
+        const file = callFile(text.uri, text.text);
+        // procedure with the same name in another file is a different procedure
+        if (filePath != itemPath && file.procedures.has(name)) {
+            continue;
+        }
+        for (const procedure of file.procedures.values()) {
+            const sites = ast.callSites(procedure).get(name);
+            if (sites) {
+                result.push({
+                    from: callItem(file, procedure),
+                    fromRanges: sites.map((x) => tokenRange(x.token)),
+                });
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Procedures called by `item`, defined in the same file or in headers
+ * @param definitions known definitions, only those from headers are used
+ */
+export function outgoingCalls(item: CallHierarchyItem, definitions: definition.Data) {
+    const text = readFile(uriToPath(item.uri), openDocumentsByPath());
+    if (!text) {
+        return [];
+    }
+    const file = callFile(text.uri, text.text);
+    const procedure = file.procedures.get(item.name);
+    if (!procedure) {
+        return [];
+    }
+    const files = new Map<string, CallFile | undefined>();
+    const result: CallHierarchyOutgoingCall[] = [];
+    for (const [name, sites] of ast.callSites(procedure)) {
+        const callee = file.procedures.get(name);
+        const target = callee ? callItem(file, callee) : headerProcedure(name, definitions, files);
+        if (target) {
+            result.push({ to: target, fromRanges: sites.map((x) => tokenRange(x.token)) });
+        }
+    }
+    return result;
+}
+
 function jsdocToMD(jsd: jsdoc.JSdoc) {
     let md = "\n---\n";
     if (jsd.desc) {
@@ -713,48 +970,24 @@ export async function compile(
 }
 
 export function getPreviewData(text: string) {
-    const regex = /^procedure\s+(\w+).*?begin([\S\s]*?)\nend/gm;
-    const matches = text.matchAll(regex);
-    if (!matches) {
-        return;
-    }
+    const script = parse(text);
+    const procedures = script.body.filter(
+        (x): x is ast.Procedure => x.type == "procedure" && x.body !== undefined
+    );
+    const names = new Set(procedures.map((x) => x.name.name));
     const nodes: Node[] = [];
     const edges: Edge[] = [];
-    const procs = new Map<string, string>();
-
-    for (const match of matches) {
-        const name = match[1];
-        const body = match[2];
-        procs.set(name, body);
-    }
-
-    for (const [name, body] of procs) {
-        const nodeItem = { data: { id: name } };
-        if (!nodes.includes(nodeItem)) {
-            nodes.push(nodeItem);
-        }
-        if (body) {
-            // Don't need body2
-            // eslint-disable-next-line no-unused-vars
-            for (const [name2, body2] of procs) {
-                const pattern = `\\b(${name2})\\b`;
-                const nameRegex = new RegExp(pattern, "g");
-                const childMatches = body.matchAll(nameRegex);
-                let children: string[] = [];
-                for (const cm of childMatches) {
-                    children.push(cm[0]);
-                }
-                // make sure we only have unique edges
-                children = [...new Set(children)];
-                for (const child of children) {
-                    const edgeItem = {
-                        data: { id: `${name}-${name2}`, source: name, target: child },
-                    };
-                    if (!edges.includes(edgeItem)) {
-                        edges.push(edgeItem);
-                    }
-                }
-            }
+
+    for (const proc of procedures) {
+        const name = proc.name.name;
+        if (nodes.some((x) => x.data.id == name)) {
+            continue;
+        }
+        nodes.push({ data: { id: name } });
+
+        const children = [...ast.callSites(proc).keys()].filter((x) => names.has(x));
+        for (const child of children) {
+            edges.push({ data: { id: `${name}-${child}`, source: name, target: child } });
         }
     }
     return { nodes: nodes, edges: edges };
@@ -0,0 +1,46 @@
+import { FoldingRange, FoldingRangeKind } from "vscode-languageserver/node";
+
+/** Token of any of the lexers */
+interface CommentToken {
+    kind: string;
+    value: string;
+    line: number;
+}
+
+/**
+ * Add a block from `startLine` to a closing keyword, such as `end`.
+ * The closing line stays visible, so that `end else begin` lines can start the next block.
+ */
+export function addBlock(ranges: FoldingRange[], startLine: number, closeLine: number) {
+    if (closeLine - 1 > startLine) {
+        ranges.push({ startLine: startLine, endLine: closeLine - 1 });
+    }
+}
+
+/** Add a region without a closing keyword, `lastLine` is folded too */
+export function addRegion(
+    ranges: FoldingRange[],
+    startLine: number,
+    lastLine: number,
+    kind?: FoldingRangeKind
+) {
+    if (lastLine > startLine) {
+        const range: FoldingRange = { startLine: startLine, endLine: lastLine };
+        if (kind) {
+            range.kind = kind;
+        }
+        ranges.push(range);
+    }
+}
+
+/** Multiline block comments, including jsdoc */
+export function comments(tokens: CommentToken[]) {
+    const ranges: FoldingRange[] = [];
+    for (const token of tokens) {
+        if (token.kind == "comment" && token.value.startsWith("/*")) {
+            const lastLine = token.line + token.value.split("\n").length - 1;
+            addRegion(ranges, token.line, lastLine, FoldingRangeKind.Comment);
+        }
+    }
+    return ranges;
+}
@@ -0,0 +1,32 @@
+import { FormattingOptions, TextEdit } from "vscode-languageserver/node";
+
+/** Zero-based, inclusive */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/** One level of indentation, as configured in the editor */
+export function indentUnit(options: FormattingOptions) {
+    if (options.insertSpaces) {
+        return " ".repeat(options.tabSize);
+    }
+    return "\t";
+}
+
+/**
+ * Replace whole lines with formatted ones
+ * @param start first line, zero-based
+ * @param end last line, inclusive
+ * @param lines formatted lines
+ */
+export function linesEdit(text: string, start: number, end: number, lines: string[]) {
+    const eol = text.includes("\r\n") ? "\r\n" : "\n";
+    const original = text.split(/\r?\n/);
+    const range = {
+        start: { line: start, character: 0 },
+        end: { line: end, character: original[end].length },
+    };
+    const edit: TextEdit = { range: range, newText: lines.join(eol) };
+    return [edit];
+}
@@ -1,10 +1,20 @@
 import { Position, Range } from "vscode-languageserver-textdocument";
-import { conlog, getRelPath, isSubpath, uriToPath } from "./common";
+import { CallHierarchyItem, FormattingOptions } from "vscode-languageserver/node";
+import {
+    conlog,
+    getRelPath,
+    isSubpath,
+    openDocumentsByPath,
+    readFile,
+    uriToPath,
+    wordRangeAtPosition,
+} from "./common";
 import * as inlay from "./inlay";
 import * as language from "./language";
 import { Language } from "./language";
-import { MLSsettings, ProjectTraSettings } from "./settings";
+import { headersDirectories, MLSsettings, ProjectTraSettings } from "./settings";
 import { getRequest as getSignatureRequest } from "./signature";
+import * as symbol from "./symbol";
 import * as translation from "./translation";
 import {
     isTraRef,
@@ -12,6 +22,7 @@ import {
     translatableLanguages,
     Translation,
 } from "./translation";
+import { getRequest as getWeiduSignatureRequest } from "./weidu/signature";
 
 interface Languages extends Map<string, Language> {}
 
@@ -35,7 +46,17 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: true,
+            references: true,
+            rename: true,
+            documentSymbols: true,
+            semanticTokens: true,
+            format: true,
+            folding: true,
+            callHierarchy: true,
+            declaration: true,
+            lint: true,
             hover: true,
+            links: true,
             udf: true,
             headers: true,
             externalHeaders: true,
@@ -52,7 +73,17 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: false,
+            references: false,
+            rename: false,
+            documentSymbols: false,
+            semanticTokens: false,
+            format: false,
+            folding: false,
+            callHierarchy: false,
+            declaration: false,
+            lint: false,
             hover: true,
+            links: false,
             udf: false,
             headers: false,
             externalHeaders: false,
@@ -69,7 +100,17 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: false,
+            references: false,
+            rename: false,
+            documentSymbols: false,
+            semanticTokens: false,
+            format: false,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: false,
             hover: true,
+            links: false,
             udf: false,
             headers: false,
             externalHeaders: false,
@@ -87,7 +128,17 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: false,
+            references: false,
+            rename: false,
+            documentSymbols: false,
+            semanticTokens: false,
+            format: false,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: false,
             hover: true,
+            links: false,
             udf: false,
             headers: false,
             externalHeaders: false,
@@ -103,8 +154,18 @@ const languages: LanguageList = [
         id: "weidu-d",
         features: {
             completion: true,
-            definition: false,
+            definition: true,
+            references: false,
+            rename: false,
+            documentSymbols: true,
+            semanticTokens: false,
+            format: false,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: true,
             hover: true,
+            links: false,
             udf: false,
             headers: false,
             externalHeaders: false,
@@ -122,7 +183,17 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: false,
+            references: false,
+            rename: false,
+            documentSymbols: false,
+            semanticTokens: false,
+            format: false,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: true,
             hover: true,
+            links: false,
             udf: false,
             headers: false,
             externalHeaders: false,
@@ -140,7 +211,17 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: false,
+            references: false,
+            rename: false,
+            documentSymbols: false,
+            semanticTokens: false,
+            format: false,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: false,
             hover: true,
+            links: false,
             udf: false,
             headers: false,
             externalHeaders: false,
@@ -158,7 +239,17 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: false,
+            references: false,
+            rename: false,
+            documentSymbols: false,
+            semanticTokens: false,
+            format: false,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: false,
             hover: true,
+            links: false,
             udf: false,
             headers: false,
             externalHeaders: false,
@@ -175,13 +266,23 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: true,
+            references: true,
+            rename: true,
+            documentSymbols: true,
+            semanticTokens: false,
+            format: true,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: true,
             hover: true,
+            links: true,
             udf: true,
             headers: true,
-            externalHeaders: false,
+            externalHeaders: true,
             parse: true,
             parseRequiresGame: false,
-            signature: false,
+            signature: true,
             staticCompletion: true,
             staticHover: true,
             staticSignature: false,
@@ -193,13 +294,23 @@ const languages: LanguageList = [
         features: {
             completion: true,
             definition: true,
+            references: true,
+            rename: true,
+            documentSymbols: true,
+            semanticTokens: false,
+            format: true,
+            folding: true,
+            callHierarchy: false,
+            declaration: false,
+            lint: true,
             hover: true,
+            links: true,
             udf: true,
             headers: false,
             externalHeaders: false,
             parse: true,
             parseRequiresGame: false,
-            signature: false,
+            signature: true,
             staticCompletion: false,
             staticHover: false,
             staticSignature: false,
@@ -228,13 +339,20 @@ export class Galactus {
         const langs: Languages = new Map();
         for (const l of languages) {
             let language: Language;
-            // the only language with external headers dir
+            // languages with external headers dirs
             if (l.id == "fallout-ssl") {
                 language = new Language(
                     l.id,
                     l.features,
                     workspaceRoot,
-                    settings.falloutSSL.headersDirectory
+                    headersDirectories(settings.falloutSSL.headersDirectory)
+                );
+            } else if (l.id == "weidu-tp2") {
+                language = new Language(
+                    l.id,
+                    l.features,
+                    workspaceRoot,
+                    headersDirectories(settings.weidu.headersDirectory)
                 );
             } else {
                 language = new Language(l.id, l.features, workspaceRoot);
@@ -260,11 +378,11 @@ export class Galactus {
         return langId;
     }
 
-    completion(langId: string, uri: string) {
+    completion(langId: string, uri: string, text: string, position: Position) {
         langId = this.dataLang(langId);
         const language = this.languages.get(langId);
         if (language) {
-            return language.completion(uri);
+            return language.completion(uri, text, position);
         }
     }
 
@@ -287,15 +405,152 @@ export class Galactus {
         // no translation, now check real languages
         const language = this.languages.get(langId);
         if (language) {
-            return language.hover(uri, symbol);
+            return language.hover(uri, symbol, text);
+        }
+    }
+
+    definition(langId: string, uri: string, text: string, symbol: string, position: Position) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.definition(uri, text, symbol, position);
+        }
+    }
+
+    references(
+        langId: string,
+        uri: string,
+        symbol: string,
+        text: string,
+        includeDeclaration: boolean,
+        position: Position
+    ) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.references(uri, symbol, text, includeDeclaration, position);
+        }
+    }
+
+    /** Definitions from all languages */
+    workspaceSymbols(query: string) {
+        let result: symbol.ScoredSymbol[] = [];
+        for (const language of this.languages.values()) {
+            result = [...result, ...language.workspaceSymbols(query)];
+        }
+        return symbol.bestMatches(result);
+    }
+
+    documentSymbols(langId: string, uri: string, text: string) {
+        const tra = this.traEntries(uri, langId, text);
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.documentSymbols(text, tra);
+        }
+    }
+
+    format(
+        langId: string,
+        text: string,
+        options: FormattingOptions,
+        settings: MLSsettings,
+        range?: Range
+    ) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.format(text, options, settings, range);
+        }
+    }
+
+    foldingRanges(langId: string, text: string) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.foldingRanges(text);
+        }
+    }
+
+    documentLinks(langId: string, uri: string, text: string) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.documentLinks(uri, text);
         }
     }
 
-    definition(langId: string, symbol: string) {
+    declaration(langId: string, uri: string, text: string, symbol: string) {
         langId = this.dataLang(langId);
         const language = this.languages.get(langId);
         if (language) {
-            return language.definition(symbol);
+            return language.declaration(uri, text, symbol);
+        }
+    }
+
+    lint(langId: string, uri: string, text: string) {
+        const tra = this.traEntries(uri, langId, text);
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.lint(uri, text, tra);
+        }
+    }
+
+    /** Items are tagged with language id, to dispatch incoming and outgoing calls */
+    prepareCallHierarchy(langId: string, uri: string, text: string, symbol: string) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language
+                .prepareCallHierarchy(uri, text, symbol)
+                ?.map((x) => ({ ...x, data: langId }));
+        }
+    }
+
+    incomingCalls(item: CallHierarchyItem) {
+        const langId = item.data;
+        const language = this.languages.get(langId);
+        if (language) {
+            return language
+                .incomingCalls(item)
+                ?.map((x) => ({ ...x, from: { ...x.from, data: langId } }));
+        }
+    }
+
+    outgoingCalls(item: CallHierarchyItem) {
+        const langId = item.data;
+        const language = this.languages.get(langId);
+        if (language) {
+            return language
+                .outgoingCalls(item)
+                ?.map((x) => ({ ...x, to: { ...x.to, data: langId } }));
+        }
+    }
+
+    semanticTokens(langId: string, uri: string, text: string) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        if (language) {
+            return language.semanticTokens(uri, text);
+        }
+    }
+
+    prepareRename(langId: string, uri: string, text: string, position: Position) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        const word = wordRangeAtPosition(text, position);
+        if (language && word) {
+            return language.prepareRename(word.word, word.range);
+        }
+    }
+
+    rename(langId: string, uri: string, text: string, position: Position, newName: string) {
+        langId = this.dataLang(langId);
+        const language = this.languages.get(langId);
+        const word = wordRangeAtPosition(text, position);
+        if (language && word) {
+            return language.rename(uri, word.word, text, newName, position);
         }
     }
 
@@ -305,7 +560,10 @@ export class Galactus {
         if (!language) {
             return;
         }
-        const request = getSignatureRequest(text, position);
+        const request =
+            langId == "weidu-tp2"
+                ? getWeiduSignatureRequest(text, position)
+                : getSignatureRequest(text, position);
         if (!request) {
             return;
         }
@@ -328,6 +586,42 @@ export class Galactus {
             language.reloadFileData(uri, text);
         }
     }
+    /** External headers directories aren't in the workspace, so the editor doesn't watch them */
+    externalHeadersWatchers() {
+        return [...this.languages.values()].flatMap((x) => x.externalHeadersWatchers());
+    }
+
+    /** External header created, changed or deleted on disk */
+    reloadExternalHeader(uri: string, deleted: boolean) {
+        for (const language of this.languages.values()) {
+            if (!language.isExternalHeader(uri)) {
+                continue;
+            }
+            let text = "";
+            if (!deleted) {
+                const file = readFile(uriToPath(uri), openDocumentsByPath());
+                if (!file) {
+                    continue;
+                }
+                text = file.text;
+            }
+            language.reloadFileData(uri, text);
+        }
+    }
+
+    /** Entries of the tra file used by a document */
+    traEntries(uri: string, langId: string, text: string) {
+        if (!this.translation.initialized) {
+            return;
+        }
+        const filePath = uriToPath(uri);
+        const traFileKey = this.translation.traFileKey(filePath, text, langId);
+        if (!traFileKey) {
+            return;
+        }
+        return this.translation.entries(traFileKey);
+    }
+
     inlay(uri: string, langId: string, text: string, range: Range) {
         if (!this.translation.initialized) {
             return;
@@ -1,4 +1,4 @@
-interface Arg {
+export interface Arg {
     name: string;
     type: string;
     default?: string;
@@ -7,6 +7,8 @@ interface Arg {
 
 interface Ret {
     type: string;
+    /** `@ret {int} name`, for WeiDU functions */
+    name?: string;
 }
 
 export interface JSdoc {
@@ -45,9 +47,12 @@ export function parse(text: string) {
             }
             args.push(arg);
         }
-        const retMatch = l2.match(/@(ret|return|returns) {(\w+)}/);
+        const retMatch = l2.match(/@(ret|return|returns) {(\w+)}(\s+(\w+))?/);
         if (retMatch) {
             ret = { type: retMatch[2] };
+            if (retMatch[4]) {
+                ret.name = retMatch[4];
+            }
         }
         const depMatch = l2.match(/@deprecated(.*)/);
         if (depMatch) {
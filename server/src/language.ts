@@ -1,16 +1,61 @@
-import { Hover } from "vscode-languageserver/node";
-import { conlog, getRelPath, isDirectory, isSubpath, uriToPath } from "./common";
+import {
+    CallHierarchyItem,
+    Diagnostic,
+    FileSystemWatcher,
+    FormattingOptions,
+    Hover,
+    Position,
+    Range,
+    SymbolKind,
+} from "vscode-languageserver/node";
+import { conlog, getRelPath, isDirectory, isSubpath, pathToUri, uriToPath } from "./common";
 import * as completion from "./completion";
 import * as definition from "./definition";
 import * as fallout from "./fallout";
+import * as format from "./format";
 import * as hover from "./hover";
+import * as paths from "./paths";
+import * as references from "./references";
+import * as rename from "./rename";
+import * as semantic from "./semantic";
+import { MLSsettings } from "./settings";
 import * as signature from "./signature";
+import * as sslDeclarations from "./ssl/declarations";
+import * as sslFolding from "./ssl/folding";
+import * as sslFormat from "./ssl/format";
+import * as sslPaths from "./ssl/paths";
+import * as sslSemantic from "./ssl/semantic";
+import * as sslSymbols from "./ssl/symbols";
+import * as symbol from "./symbol";
+import { TraEntries } from "./translation";
 import * as weidu from "./weidu";
+import * as weiduCalls from "./weidu/calls";
+import * as weiduCompletion from "./weidu/completion";
+import * as weiduDlint from "./weidu/dlint";
+import * as weiduFolding from "./weidu/folding";
+import * as weiduFormat from "./weidu/format";
+import * as weiduLint from "./weidu/lint";
+import * as weiduParams from "./weidu/params";
+import * as weiduPaths from "./weidu/paths";
+import * as weiduReferences from "./weidu/references";
+import * as weiduStates from "./weidu/states";
+import * as weiduSymbols from "./weidu/symbols";
+import * as weiduVariables from "./weidu/variables";
 
 export interface Features {
     completion: boolean;
     definition: boolean;
+    references: boolean;
+    rename: boolean;
+    documentSymbols: boolean;
+    semanticTokens: boolean;
+    format: boolean;
+    folding: boolean;
+    callHierarchy: boolean;
+    declaration: boolean;
+    lint: boolean; // in-process checks, run on every change
     hover: boolean;
+    links: boolean; // file paths: document links, completion and missing file warnings
 
     udf: boolean; // are there any user-defined functions, macros, or anything else
     headers: boolean; // do we parse headers for data?
@@ -33,6 +78,7 @@ export interface HeaderData {
     hover: hover.HoverMapEx;
     definition: definition.Data;
     signature?: signature.SigMap;
+    functions?: weidu.Functions;
 }
 
 interface Data {
@@ -41,6 +87,7 @@ interface Data {
     hover: hover.Data;
     // inlay: boolean;
     signature: signature.Data;
+    functions: weidu.Functions;
 }
 
 export interface Language {
@@ -48,7 +95,7 @@ export interface Language {
     dataId: string; // search completions and hover from this language id
     features: Features;
     data: Data;
-    externalHeadersDirectory: string;
+    externalHeadersDirectories: string[];
 }
 
 export class Language implements Language {
@@ -57,17 +104,17 @@ export class Language implements Language {
     // @ts-expect-error: ts2564 because we init the instance with async init() method explicitly.
     data: Data;
     workspaceRoot: string;
-    externalHeadersDirectory: string;
+    externalHeadersDirectories: string[];
 
     constructor(
         id: string,
         features: Features,
         workspaceRoot: string,
-        externalHeadersDirectory = ""
+        externalHeadersDirectories: string[] = []
     ) {
         this.id = id;
         this.features = features;
-        this.externalHeadersDirectory = externalHeadersDirectory;
+        this.externalHeadersDirectories = externalHeadersDirectories;
         this.workspaceRoot = workspaceRoot;
     }
 
@@ -111,33 +158,65 @@ export class Language implements Language {
         conlog(`Unknown language id ${this.id}, can't load headers.`);
     }
 
-    private async loadExternalHeaders(staticHover: hover.HoverMap = new Map()) {
-        conlog(`Loading external headers for ${this.id}`);
+    private async loadExternalHeadersDirectory(
+        directory: string,
+        staticHover: hover.HoverMap = new Map()
+    ) {
+        conlog(`Loading external headers for ${this.id} from ${directory}`);
         try {
-            if (!isDirectory(this.externalHeadersDirectory)) {
-                conlog(
-                    `${this.externalHeadersDirectory} is not a directory, skipping external headers.`
-                );
+            if (!isDirectory(directory)) {
+                conlog(`${directory} is not a directory, skipping external headers.`);
                 return;
             }
         } catch {
-            conlog(`lstat ${this.externalHeadersDirectory} failed, aborting.`);
+            conlog(`lstat ${directory} failed, aborting.`);
             return;
         }
-        if (isSubpath(this.workspaceRoot, this.externalHeadersDirectory)) {
+        if (isSubpath(this.workspaceRoot, directory)) {
             conlog(
-                `Real ${this.externalHeadersDirectory} is a subdirectory of workspace ${this.workspaceRoot}, aborting.`
+                `Real ${directory} is a subdirectory of workspace ${this.workspaceRoot}, aborting.`
             );
             return;
         }
 
         if (this.id == "fallout-ssl") {
-            const res = await fallout.loadHeaders(this.externalHeadersDirectory, true, staticHover);
+            const res = await fallout.loadHeaders(directory, true, staticHover);
+            return res;
+        }
+        if (this.id == "weidu-tp2") {
+            const res = await weidu.loadHeaders(directory, true);
             return res;
         }
         conlog(`Unknown language id ${this.id}, can't load external headers.`);
     }
 
+    /** All external headers directories. For symbols defined in several, the first one wins. */
+    private async loadExternalHeaders(staticHover: hover.HoverMap = new Map()) {
+        let result: HeaderData | undefined;
+        for (const directory of [...this.externalHeadersDirectories].reverse()) {
+            const data = await this.loadExternalHeadersDirectory(directory, staticHover);
+            if (!data) {
+                continue;
+            }
+            if (!result) {
+                result = data;
+                continue;
+            }
+            const labels = new Set(data.completion.map((x) => x.label));
+            result = {
+                completion: [
+                    ...result.completion.filter((x) => !labels.has(x.label)),
+                    ...data.completion,
+                ],
+                hover: new Map([...result.hover, ...data.hover]),
+                definition: new Map([...result.definition, ...data.definition]),
+                signature: new Map([...(result.signature || []), ...(data.signature || [])]),
+                functions: new Map([...(result.functions || []), ...(data.functions || [])]),
+            };
+        }
+        return result;
+    }
+
     private async loadData() {
         const completionData: completion.Data = { self: new Map(), headers: [], static: [] };
         const hoverData: hover.Data = { self: new Map(), headers: new Map(), static: new Map() };
@@ -157,6 +236,7 @@ export class Language implements Language {
             hover: hoverData,
             definition: definitionData,
             signature: signatureData,
+            functions: new Map(),
         };
 
         if (this.features.headers) {
@@ -174,9 +254,12 @@ export class Language implements Language {
                 if (headerData.signature) {
                     data.signature.headers = headerData.signature;
                 }
+                if (headerData.functions) {
+                    data.functions = headerData.functions;
+                }
             }
 
-            if (this.features.externalHeaders && this.externalHeadersDirectory != "") {
+            if (this.features.externalHeaders && this.externalHeadersDirectories.length > 0) {
                 let externalHeaderData: HeaderData | undefined;
                 // hack: skip sfall macro dupes from headers
                 if (this.id == "fallout-ssl") {
@@ -194,6 +277,13 @@ export class Language implements Language {
                     if (externalHeaderData.signature) {
                         data.signature.extHeaders = externalHeaderData.signature;
                     }
+                    if (externalHeaderData.functions) {
+                        // workspace functions take precedence
+                        data.functions = new Map([
+                            ...externalHeaderData.functions,
+                            ...data.functions,
+                        ]);
+                    }
                 }
             }
         }
@@ -236,14 +326,27 @@ export class Language implements Language {
         if (!this.features.externalHeaders) {
             return false;
         }
-        if (this.externalHeadersDirectory == "") {
-            return false;
-        }
         const realPath = uriToPath(uri);
-        if (isSubpath(this.externalHeadersDirectory, realPath)) {
-            return true;
+        return this.externalHeadersDirectories.some((x) => isSubpath(x, realPath));
+    }
+
+    /** Header in one of the external headers directories, which are not watched by the editor */
+    isExternalHeader(uri: string) {
+        return this.isHeader(uri) && this.inExternalHeadersDirectory(uri);
+    }
+
+    /** Watchers for external headers directories */
+    externalHeadersWatchers() {
+        if (!this.features.externalHeaders) {
+            return [];
         }
-        return false;
+        const ext = this.id == "fallout-ssl" ? "h" : "tph";
+        return this.externalHeadersDirectories.map((x) => {
+            const watcher: FileSystemWatcher = {
+                globPattern: { baseUri: pathToUri(x), pattern: `**/*.${ext}` },
+            };
+            return watcher;
+        });
     }
 
     private reloadFileCompletion(
@@ -319,6 +422,18 @@ export class Language implements Language {
         return newSignature;
     }
 
+    private reloadFileFunctions(
+        oldFunctions: weidu.Functions,
+        fileFunctions: weidu.Functions,
+        uri: string
+    ) {
+        const newFunctions = new Map(
+            // eslint-disable-next-line no-unused-vars
+            Array.from(oldFunctions).filter(([key, value]) => value.uri != uri)
+        );
+        return new Map([...newFunctions, ...fileFunctions]);
+    }
+
     reloadFileData(uri: string, text: string) {
         let fileData: HeaderData;
         const filePath = this.displayPath(uri);
@@ -359,7 +474,7 @@ export class Language implements Language {
                         fileData.signature,
                         uri
                     );
-                    this.data.signature.self.set(uri, newSignature);
+                    this.data.signature.headers = newSignature;
                 }
             } else if (this.inExternalHeadersDirectory(uri)) {
                 // make tslint happy
@@ -390,7 +505,7 @@ export class Language implements Language {
                         fileData.signature,
                         uri
                     );
-                    this.data.signature.self.set(uri, newSignature);
+                    this.data.signature.extHeaders = newSignature;
                 }
             }
         } else {
@@ -408,12 +523,38 @@ export class Language implements Language {
                 uri
             );
         }
+        if (fileData.functions) {
+            this.data.functions = this.reloadFileFunctions(
+                this.data.functions,
+                fileData.functions,
+                uri
+            );
+        }
     }
 
-    completion(uri: string) {
+    completion(uri: string, text: string, position: Position) {
         if (!this.features.completion) {
             return;
         }
+        const prefix = this.pathPrefix(uri, text, position);
+        if (prefix) {
+            return paths.completion(prefix);
+        }
+        if (this.id == "weidu-d") {
+            const labels = weiduStates.completion(uri, text, position, this.workspaceRoot);
+            if (labels) {
+                return labels;
+            }
+        }
+        if (this.id == "weidu-tp2") {
+            const call = weiduCalls.callAt(text, position);
+            if (call && !call.macro && !call.value) {
+                const params = this.weiduParams(text, call.name);
+                if (params) {
+                    return weiduCompletion.paramCompletion(call, params);
+                }
+            }
+        }
         let result: completion.CompletionList;
         result = this.data.completion.self.get(uri) || [];
         result = [...result, ...this.data.completion.static];
@@ -423,10 +564,22 @@ export class Language implements Language {
         if (this.data.completion.extHeaders) {
             result = [...result, ...this.data.completion.extHeaders];
         }
+        if (this.id == "weidu-tp2") {
+            result = [...result, ...weiduVariables.completion(weiduVariables.findVariables(text))];
+        }
         return result;
     }
 
-    hover(uri: string, symbol: string) {
+    /** Parameters of WeiDU function `name`, defined in the current text or elsewhere */
+    private weiduParams(text: string, name: string) {
+        const params = weiduParams.definitionParams(text, name);
+        if (params) {
+            return params;
+        }
+        return this.data.functions.get(name)?.params;
+    }
+
+    hover(uri: string, symbol: string, text: string) {
         if (!this.features.hover) {
             return;
         }
@@ -456,16 +609,414 @@ export class Language implements Language {
                 return result;
             }
         }
+
+        if (this.id == "weidu-tp2") {
+            const variable = weiduVariables.findVariables(text).get(symbol);
+            if (variable) {
+                return weiduVariables.hover(variable);
+            }
+        }
     }
 
-    definition(symbol: string) {
+    definition(uri: string, text: string, symbol: string, position: Position) {
         if (!this.features.definition) {
             return;
         }
+        if (this.id == "weidu-d") {
+            return weiduStates.definition(uri, text, position, this.workspaceRoot);
+        }
         const result = this.data.definition.get(symbol);
         if (result) {
             return result;
         }
+        if (this.id == "weidu-tp2") {
+            const variable = weiduVariables.findVariables(text).get(symbol);
+            if (variable) {
+                return weiduVariables.definition(uri, variable);
+            }
+        }
+    }
+
+    /** Forward declaration, as opposed to definition */
+    declaration(uri: string, text: string, symbol: string) {
+        if (!this.features.declaration) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return sslDeclarations.declaration(uri, text, symbol);
+            default:
+                conlog(`Language ${this.id} doesn't support declarations.`);
+        }
+    }
+
+    /** Header procedures and functions */
+    private headerFunctions() {
+        const result = new Set<string>();
+        for (const [name, location] of this.data.definition) {
+            if (location.kind == SymbolKind.Function && this.isHeader(location.uri)) {
+                result.add(name);
+            }
+        }
+        return result;
+    }
+
+    /** @param tra entries of the tra file of the document, to check tra references */
+    async lint(uri: string, text: string, tra?: TraEntries) {
+        if (!this.features.lint) {
+            return;
+        }
+        let result: Diagnostic[];
+        switch (this.id) {
+            case "fallout-ssl":
+                result = sslDeclarations.checkDeclarations(uri, text, this.headerFunctions());
+                break;
+            case "weidu-tp2": {
+                // the file itself may be changed since the last reload
+                const functions = this.reloadFileFunctions(
+                    this.data.functions,
+                    weidu.fileFunctions(uri, text),
+                    uri
+                );
+                result = weiduLint.check(uri, text, functions, this.data.hover.static);
+                break;
+            }
+            case "weidu-d": {
+                const others = (name: string) =>
+                    weiduStates.workspaceDialogs(uri, this.workspaceRoot, name);
+                result = weiduDlint.check(uri, text, others, tra);
+                break;
+            }
+            default:
+                conlog(`Language ${this.id} doesn't support linting.`);
+                return;
+        }
+        if (this.features.links) {
+            result = [...result, ...(await paths.missing(this.filePaths(uri, text)))];
+        }
+        return result;
+    }
+
+    /** Included and copied files, only for documents on disk */
+    private filePaths(uri: string, text: string) {
+        if (!uri.startsWith("file:")) {
+            return [];
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return sslPaths.filePaths(uri, text, this.externalHeadersDirectories);
+            case "weidu-tp2":
+                return weiduPaths.filePaths(uri, text);
+            default:
+                conlog(`Language ${this.id} doesn't support file paths.`);
+                return [];
+        }
+    }
+
+    /** Path being typed, if the position is in a path string */
+    private pathPrefix(uri: string, text: string, position: Position) {
+        if (!this.features.links || !uri.startsWith("file:")) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return sslPaths.pathPrefix(uri, text, position, this.externalHeadersDirectories);
+            case "weidu-tp2":
+                return weiduPaths.pathPrefix(uri, text, position);
+        }
+    }
+
+    documentLinks(uri: string, text: string) {
+        if (!this.features.links) {
+            return;
+        }
+        return paths.links(this.filePaths(uri, text));
+    }
+
+    references(
+        uri: string,
+        symbol: string,
+        text: string,
+        includeDeclaration: boolean,
+        position: Position
+    ) {
+        if (!this.features.references) {
+            return;
+        }
+        let result: references.References;
+        switch (this.id) {
+            case "fallout-ssl":
+                result = fallout.findReferences(
+                    uri,
+                    text,
+                    symbol,
+                    position,
+                    this.workspaceRoot,
+                    this.externalHeadersDirectories
+                );
+                break;
+            case "weidu-tp2": {
+                const target = weiduReferences.targetAt(text, position);
+                if (!target) {
+                    return;
+                }
+                result = weiduReferences.findReferences(uri, text, target, this.workspaceRoot);
+                break;
+            }
+            default:
+                conlog(`Language ${this.id} doesn't support references.`);
+                return;
+        }
+        return references.toLocations(result, includeDeclaration);
+    }
+
+    /** @param tra entries of the tra file of the document */
+    documentSymbols(text: string, tra?: TraEntries) {
+        if (!this.features.documentSymbols) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return sslSymbols.documentSymbols(text);
+            case "weidu-tp2":
+                return weiduSymbols.tp2(text, tra);
+            case "weidu-d":
+                return weiduStates.symbols(text, tra);
+            default:
+                conlog(`Language ${this.id} doesn't support document symbols.`);
+        }
+    }
+
+    /** Header and built-in symbols, for highlighting. Same priority as in hover. */
+    private semanticSymbols(uri: string) {
+        const symbols: semantic.SymbolMap = new Map();
+        const add = (items: completion.CompletionList, builtin: boolean) => {
+            for (const item of items) {
+                const info = semantic.fromCompletion(item, builtin);
+                if (info) {
+                    symbols.set(item.label, info);
+                }
+            }
+        };
+        add(this.data.completion.extHeaders || [], false);
+        add(this.data.completion.headers, false);
+        add(this.data.completion.static, true);
+        add(this.data.completion.self.get(uri) || [], false);
+        return symbols;
+    }
+
+    semanticTokens(uri: string, text: string) {
+        if (!this.features.semanticTokens) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl": {
+                const tokens = sslSemantic.semanticTokens(text, this.semanticSymbols(uri));
+                return semantic.encode(tokens);
+            }
+            default:
+                conlog(`Language ${this.id} doesn't support semantic tokens.`);
+        }
+    }
+
+    foldingRanges(text: string) {
+        if (!this.features.folding) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return sslFolding.foldingRanges(text);
+            case "weidu-tp2":
+                return weiduFolding.tp2(text);
+            case "weidu-baf":
+                return weiduFolding.baf(text);
+            case "weidu-d":
+                return weiduFolding.d(text);
+            default:
+                conlog(`Language ${this.id} doesn't support folding.`);
+        }
+    }
+
+    /**
+     * @param range lines to format, whole text by default
+     */
+    format(text: string, options: FormattingOptions, settings: MLSsettings, range?: Range) {
+        if (!this.features.format) {
+            return;
+        }
+        let start = 0;
+        let end = text.split(/\r?\n/).length - 1;
+        if (range) {
+            start = range.start.line;
+            end = range.end.line;
+            // selection of whole lines ends at the start of the next line
+            if (range.end.character == 0 && end > start) {
+                end--;
+            }
+        }
+        let lines: string[] | undefined;
+        switch (this.id) {
+            case "fallout-ssl":
+                lines = sslFormat.format(
+                    text,
+                    {
+                        indent: format.indentUnit(options),
+                        beginPlacement: settings.falloutSSL.formatBeginPlacement,
+                    },
+                    { start: start, end: end }
+                );
+                break;
+            case "weidu-tp2":
+                lines = weiduFormat.format(
+                    text,
+                    { indent: format.indentUnit(options) },
+                    { start: start, end: end }
+                );
+                break;
+            default:
+                conlog(`Language ${this.id} doesn't support formatting.`);
+                return;
+        }
+        if (!lines) {
+            return [];
+        }
+        return format.linesEdit(text, start, end, lines);
+    }
+
+    prepareCallHierarchy(uri: string, text: string, symbol: string) {
+        if (!this.features.callHierarchy) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return fallout.prepareCallHierarchy(uri, text, symbol, this.data.definition);
+            default:
+                conlog(`Language ${this.id} doesn't support call hierarchy.`);
+        }
+    }
+
+    incomingCalls(item: CallHierarchyItem) {
+        if (!this.features.callHierarchy) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return fallout.incomingCalls(
+                    item,
+                    this.workspaceRoot,
+                    this.externalHeadersDirectories
+                );
+            default:
+                conlog(`Language ${this.id} doesn't support call hierarchy.`);
+        }
+    }
+
+    outgoingCalls(item: CallHierarchyItem) {
+        if (!this.features.callHierarchy) {
+            return;
+        }
+        switch (this.id) {
+            case "fallout-ssl":
+                return fallout.outgoingCalls(item, this.data.definition);
+            default:
+                conlog(`Language ${this.id} doesn't support call hierarchy.`);
+        }
+    }
+
+    /** Header and open file definitions matching `query` */
+    workspaceSymbols(query: string) {
+        const result: symbol.ScoredSymbol[] = [];
+        if (!this.features.definition) {
+            return result;
+        }
+        for (const [name, location] of this.data.definition) {
+            const score = symbol.fuzzyScore(query, name);
+            if (score === undefined) {
+                continue;
+            }
+            result.push({
+                score: score,
+                symbol: {
+                    name: name,
+                    kind: location.kind,
+                    location: { uri: location.uri, range: location.range },
+                    containerName: this.displayPath(location.uri),
+                },
+            });
+        }
+        if (this.id == "weidu-d") {
+            // states are looked up in D files directly, they aren't loaded as definitions
+            for (const state of weiduStates.workspaceSymbols(this.workspaceRoot)) {
+                const score = symbol.fuzzyScore(query, state.name);
+                if (score !== undefined) {
+                    result.push({ score: score, symbol: state });
+                }
+            }
+        }
+        return result;
+    }
+
+    /** Built-in functions and keywords, loaded from server/out/*.json */
+    private isStatic(symbol: string) {
+        if (this.data.hover.static.has(symbol)) {
+            return true;
+        }
+        return this.data.completion.static.some((item) => item.label == symbol);
+    }
+
+    prepareRename(symbol: string, range: Range) {
+        if (!this.features.rename) {
+            return;
+        }
+        if (this.isStatic(symbol)) {
+            return rename.refuse(`${symbol} is a built-in and can't be renamed.`);
+        }
+        return { range: range, placeholder: symbol };
+    }
+
+    rename(uri: string, symbol: string, text: string, newName: string, position: Position) {
+        if (!this.features.rename) {
+            return;
+        }
+        if (this.isStatic(symbol)) {
+            return rename.refuse(`${symbol} is a built-in and can't be renamed.`);
+        }
+        if (this.isStatic(newName)) {
+            return rename.refuse(`${newName} is a built-in, choose another name.`);
+        }
+        let refs: references.References;
+        switch (this.id) {
+            case "fallout-ssl":
+                if (!fallout.isIdentifier(newName)) {
+                    return rename.refuse(`${newName} is not a valid identifier.`);
+                }
+                refs = fallout.findReferences(
+                    uri,
+                    text,
+                    symbol,
+                    position,
+                    this.workspaceRoot,
+                    this.externalHeadersDirectories
+                );
+                break;
+            case "weidu-tp2": {
+                if (!/^[\w#]+$/.test(newName)) {
+                    return rename.refuse(`${newName} is not a valid name.`);
+                }
+                const target = weiduReferences.targetAt(text, position);
+                if (!target) {
+                    return rename.refuse(
+                        `${symbol} is not a function, macro or function parameter.`
+                    );
+                }
+                refs = weiduReferences.findReferences(uri, text, target, this.workspaceRoot);
+                break;
+            }
+            default:
+                conlog(`Language ${this.id} doesn't support rename.`);
+                return;
+        }
+        return rename.toWorkspaceEdit(refs, newName);
     }
 
     signature(uri: string, request: signature.Request) {
@@ -476,7 +1027,7 @@ export class Language implements Language {
         if (this.data.signature.static) {
             const sig = this.data.signature.static.get(request.symbol);
             if (sig) {
-                return signature.getResponse(sig, request.parameter);
+                return signature.getResponse(sig, request);
             }
         }
 
@@ -484,21 +1035,21 @@ export class Language implements Language {
         if (selfMap) {
             const sig = selfMap.get(request.symbol);
             if (sig) {
-                return signature.getResponse(sig, request.parameter);
+                return signature.getResponse(sig, request);
             }
         }
 
         if (this.data.signature.headers) {
             const sig = this.data.signature.headers.get(request.symbol);
             if (sig) {
-                return signature.getResponse(sig, request.parameter);
+                return signature.getResponse(sig, request);
             }
         }
 
         if (this.data.signature.extHeaders) {
             const sig = this.data.signature.extHeaders.get(request.symbol);
             if (sig) {
-                return signature.getResponse(sig, request.parameter);
+                return signature.getResponse(sig, request);
             }
         }
     }
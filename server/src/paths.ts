@@ -0,0 +1,199 @@
+/**
+ * File paths in code
+ *
+ * Languages find path strings and the places where files are looked up, this module turns them
+ * into document links, path completion and warnings about missing files.
+ * Mods are often written on Windows, so backslashes are separators and names are case insensitive.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Diagnostic,
+    DiagnosticSeverity,
+    DocumentLink,
+    Position,
+    Range,
+    TextEdit,
+} from "vscode-languageserver/node";
+import { pathToUri } from "./common";
+
+/** Path string in a document */
+export interface FilePath {
+    /** As written, without quotes */
+    value: string;
+    range: Range;
+    /** Absolute paths to look for the file at, in order. Empty if the path can't be resolved. */
+    candidates: string[];
+}
+
+/** Path being typed */
+export interface PathPrefix {
+    /** Absolute directories to list */
+    dirs: string[];
+    /** Range of the file name after the last separator, up to the cursor */
+    range: Range;
+}
+
+/** Forward slashes only */
+export function normalize(value: string) {
+    return value.replace(/\\/g, "/");
+}
+
+/** Split a path being typed into the directory part and the file name being typed */
+export function splitPrefix(value: string, position: Position) {
+    const normalized = normalize(value);
+    const separator = normalized.lastIndexOf("/");
+    const name = normalized.slice(separator + 1);
+    const range: Range = {
+        start: { line: position.line, character: position.character - name.length },
+        end: position,
+    };
+    return { dir: normalized.slice(0, separator + 1), range: range };
+}
+
+/** Existing path, matching `filePath` case insensitively if needed */
+export function findPath(filePath: string): string | undefined {
+    if (fs.existsSync(filePath)) {
+        return filePath;
+    }
+    const parent = path.dirname(filePath);
+    if (parent == filePath) {
+        return;
+    }
+    const dir = findPath(parent);
+    if (!dir) {
+        return;
+    }
+    const name = path.basename(filePath).toLowerCase();
+    try {
+        const entry = fs.readdirSync(dir).find((x) => x.toLowerCase() == name);
+        if (entry) {
+            return path.join(dir, entry);
+        }
+    } catch {
+        return;
+    }
+}
+
+function isFile(filePath: string) {
+    try {
+        return fs.statSync(filePath).isFile();
+    } catch {
+        return false;
+    }
+}
+
+/** First candidate that exists, file or directory */
+function resolve(filePath: FilePath) {
+    for (const candidate of filePath.candidates) {
+        const result = findPath(candidate);
+        if (result) {
+            return result;
+        }
+    }
+}
+
+/** Links to existing files. Directories are skipped, editors can't open them. */
+export function links(filePaths: FilePath[]) {
+    const result: DocumentLink[] = [];
+    for (const filePath of filePaths) {
+        const target = resolve(filePath);
+        if (target && isFile(target)) {
+            result.push({ range: filePath.range, target: pathToUri(target) });
+        }
+    }
+    return result;
+}
+
+/**
+ * `findPath` that doesn't block the server
+ * @param listings directory entries already read, shared between lookups
+ */
+async function findPathAsync(
+    filePath: string,
+    listings: Map<string, Promise<string[]>>
+): Promise<string | undefined> {
+    try {
+        await fs.promises.access(filePath);
+        return filePath;
+    } catch {
+        // look for a different case below
+    }
+    const parent = path.dirname(filePath);
+    if (parent == filePath) {
+        return;
+    }
+    const dir = await findPathAsync(parent, listings);
+    if (!dir) {
+        return;
+    }
+    let entries = listings.get(dir);
+    if (!entries) {
+        entries = fs.promises.readdir(dir).catch(() => []);
+        listings.set(dir, entries);
+    }
+    const name = path.basename(filePath).toLowerCase();
+    const entry = (await entries).find((x) => x.toLowerCase() == name);
+    if (entry) {
+        return path.join(dir, entry);
+    }
+}
+
+async function exists(filePath: FilePath, listings: Map<string, Promise<string[]>>) {
+    for (const candidate of filePath.candidates) {
+        if (await findPathAsync(candidate, listings)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/** Warnings for paths that don't exist */
+export async function missing(filePaths: FilePath[]) {
+    const result: Diagnostic[] = [];
+    const listings = new Map<string, Promise<string[]>>();
+    for (const filePath of filePaths) {
+        if (filePath.candidates.length == 0 || (await exists(filePath, listings))) {
+            continue;
+        }
+        result.push({
+            severity: DiagnosticSeverity.Warning,
+            range: filePath.range,
+            message: `File ${filePath.value} not found.`,
+            source: "BGforge MLS",
+        });
+    }
+    return result;
+}
+
+/** Entries of all directories of the prefix, directories first */
+export function completion(prefix: PathPrefix) {
+    const names = new Map<string, boolean>();
+    for (const dir of prefix.dirs) {
+        const realDir = findPath(dir);
+        if (!realDir) {
+            continue;
+        }
+        try {
+            for (const entry of fs.readdirSync(realDir, { withFileTypes: true })) {
+                if (!names.has(entry.name)) {
+                    names.set(entry.name, entry.isDirectory());
+                }
+            }
+        } catch {
+            continue;
+        }
+    }
+    return [...names].map(([name, isDir]) => {
+        const item: CompletionItem = {
+            label: name,
+            kind: isDir ? CompletionItemKind.Folder : CompletionItemKind.File,
+            textEdit: TextEdit.replace(prefix.range, name),
+            sortText: `${isDir ? 0 : 1}${name}`,
+        };
+        return item;
+    });
+}
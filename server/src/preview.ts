@@ -1,14 +1,31 @@
 import * as fs from "fs";
 import * as path from "path";
-import { stripLiteralRegex } from "strip-literal";
 import { conlog, isDirectory, tmpDir } from "./common";
 import * as fallout from "./fallout";
+import { TraEntries } from "./translation";
+import * as weiduComponents from "./weidu/components";
+import * as weiduGraph from "./weidu/graph";
 
 export interface Node {
-    data: { id: string };
+    data: {
+        id: string;
+        /** Shown instead of id */
+        label?: string;
+        /** Compound node containing this one */
+        parent?: string;
+        kind?: "group" | "external";
+        /** Clicking the node reveals it in the editor */
+        location?: { uri: string; line: number; character: number };
+    };
 }
 export interface Edge {
-    data: { id: string; source: string; target: string };
+    data: {
+        id: string;
+        source: string;
+        target: string;
+        label?: string;
+        kind?: "require" | "forbid" | "copy";
+    };
 }
 
 export interface Data {
@@ -16,39 +33,67 @@ export interface Data {
     edges: Edge[];
 }
 
-export function preview(text: string, langId: string, previewSrcDir: string) {
-    text = stripLiteralRegex(text);
+/**
+ * Fallout scripts are shown as callgraphs, TP2 mods as component dependency graphs,
+ * D files as dialog graphs
+ * @param tra entries of the tra file of the document, for names
+ */
+function getData(
+    uri: string,
+    text: string,
+    langId: string,
+    workspaceRoot: string,
+    tra?: TraEntries
+) {
+    switch (langId) {
+        case "fallout-ssl":
+            return fallout.getPreviewData(text);
+        case "weidu-tp2":
+        case "weidu-tp2-tpl":
+            return weiduComponents.graph(text, weiduComponents.modName(uri), tra);
+        case "weidu-d":
+        case "weidu-d-tpl":
+            return weiduGraph.graph(uri, text, workspaceRoot, tra);
+    }
+}
+
+export function preview(
+    uri: string,
+    text: string,
+    langId: string,
+    previewSrcDir: string,
+    workspaceRoot: string,
+    tra?: TraEntries
+) {
     let willPreview = false;
-    if (langId == "fallout-ssl") {
-        const data: Data | undefined = fallout.getPreviewData(text);
-        if (data) {
-            conlog(data);
-            const dataString = JSON.stringify(data);
-            // dataString = "export const elements = " + dataString;
-            const previewDir = path.join(tmpDir, "preview");
+    const data: Data | undefined = getData(uri, text, langId, workspaceRoot, tra);
+    if (data) {
+        conlog(data);
+        const dataString = JSON.stringify(data);
+        // dataString = "export const elements = " + dataString;
+        const previewDir = path.join(tmpDir, "preview");
 
-            const dataFile = path.join(previewDir, "data.json");
-            if (!isDirectory(previewDir)) {
-                fs.mkdirSync(previewDir);
-            }
-            fs.writeFileSync(dataFile, dataString);
+        const dataFile = path.join(previewDir, "data.json");
+        if (!isDirectory(previewDir)) {
+            fs.mkdirSync(previewDir);
+        }
+        fs.writeFileSync(dataFile, dataString);
 
-            for (const fileName of ["index.css", "index.js", "index.html"]) {
-                const dstPath = path.join(previewDir, fileName);
-                const srcPath = path.join(previewSrcDir, fileName);
-                if (!fs.existsSync(dstPath)) {
+        for (const fileName of ["index.css", "index.js", "index.html"]) {
+            const dstPath = path.join(previewDir, fileName);
+            const srcPath = path.join(previewSrcDir, fileName);
+            if (!fs.existsSync(dstPath)) {
+                fs.copyFileSync(srcPath, dstPath);
+            } else {
+                const srcSize = fs.statSync(srcPath).size;
+                const dstSize = fs.statSync(dstPath).size;
+                if (srcSize != dstSize) {
                     fs.copyFileSync(srcPath, dstPath);
-                } else {
-                    const srcSize = fs.statSync(srcPath).size;
-                    const dstSize = fs.statSync(dstPath).size;
-                    if (srcSize != dstSize) {
-                        fs.copyFileSync(srcPath, dstPath);
-                    }
                 }
             }
-
-            willPreview = true;
         }
+
+        willPreview = true;
     }
     return willPreview;
 }
@@ -0,0 +1,19 @@
+import { Location } from "vscode-languageserver";
+
+/** Symbol usage location. `definition` is set for definitions and forward declarations. */
+export interface Reference extends Location {
+    definition: boolean;
+}
+export interface References extends Array<Reference> {}
+
+/** Strip our flag, and optionally the definitions themselves */
+export function toLocations(references: References, includeDeclaration: boolean) {
+    const result: Location[] = [];
+    for (const ref of references) {
+        if (ref.definition && !includeDeclaration) {
+            continue;
+        }
+        result.push({ uri: ref.uri, range: ref.range });
+    }
+    return result;
+}
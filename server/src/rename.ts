@@ -0,0 +1,20 @@
+import { ErrorCodes, ResponseError, TextEdit, WorkspaceEdit } from "vscode-languageserver/node";
+import * as references from "./references";
+
+/** Rename is refused with a message shown to user, rather than silently */
+export function refuse(message: string) {
+    return new ResponseError(ErrorCodes.InvalidRequest, message);
+}
+
+/** Replace every reference with `newName` */
+export function toWorkspaceEdit(refs: references.References, newName: string) {
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const ref of refs) {
+        if (!changes[ref.uri]) {
+            changes[ref.uri] = [];
+        }
+        changes[ref.uri].push(TextEdit.replace(ref.range, newName));
+    }
+    const result: WorkspaceEdit = { changes: changes };
+    return result;
+}
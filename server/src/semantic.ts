@@ -0,0 +1,85 @@
+import {
+    CompletionItem,
+    CompletionItemKind,
+    CompletionItemTag,
+    SemanticTokens,
+    SemanticTokensBuilder,
+    SemanticTokensLegend,
+} from "vscode-languageserver/node";
+
+export type TokenType = "function" | "macro" | "variable" | "parameter";
+export type TokenModifier = "declaration" | "readonly" | "deprecated" | "defaultLibrary";
+
+const tokenTypes: TokenType[] = ["function", "macro", "variable", "parameter"];
+const tokenModifiers: TokenModifier[] = ["declaration", "readonly", "deprecated", "defaultLibrary"];
+
+export const legend: SemanticTokensLegend = {
+    tokenTypes: tokenTypes,
+    tokenModifiers: tokenModifiers,
+};
+
+export interface TokenInfo {
+    type: TokenType;
+    modifiers: TokenModifier[];
+}
+
+/** Single line token */
+export interface SemanticToken extends TokenInfo {
+    line: number;
+    character: number;
+    length: number;
+}
+
+/** symbol name => how to highlight it */
+export interface SymbolMap extends Map<string, TokenInfo> {}
+
+/**
+ * Token info for header and static completion items
+ * @param builtin item comes from static data
+ */
+export function fromCompletion(item: CompletionItem, builtin: boolean) {
+    let info: TokenInfo;
+    switch (item.kind) {
+        case CompletionItemKind.Function:
+            info = { type: "function", modifiers: [] };
+            break;
+        case CompletionItemKind.Constant:
+            info = { type: "variable", modifiers: ["readonly"] };
+            break;
+        case CompletionItemKind.Field:
+            // macros are shown as fields in completion
+            info = { type: "macro", modifiers: [] };
+            break;
+        case CompletionItemKind.Variable:
+            info = { type: "variable", modifiers: [] };
+            break;
+        default:
+            return;
+    }
+    if (builtin) {
+        info.modifiers.push("defaultLibrary");
+    }
+    if (item.tags?.includes(CompletionItemTag.Deprecated)) {
+        info.modifiers.push("deprecated");
+    }
+    return info;
+}
+
+export function encode(tokens: SemanticToken[]): SemanticTokens {
+    tokens.sort((a, b) => a.line - b.line || a.character - b.character);
+    const builder = new SemanticTokensBuilder();
+    for (const token of tokens) {
+        let modifiers = 0;
+        for (const modifier of token.modifiers) {
+            modifiers |= 1 << tokenModifiers.indexOf(modifier);
+        }
+        builder.push(
+            token.line,
+            token.character,
+            token.length,
+            tokenTypes.indexOf(token.type),
+            modifiers
+        );
+    }
+    return builder.build();
+}
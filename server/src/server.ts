@@ -4,6 +4,8 @@ import {
     CompletionItem,
     createConnection,
     DidChangeConfigurationNotification,
+    DidChangeWatchedFilesNotification,
+    FileChangeType,
     InitializeParams,
     InitializeResult,
     ProposedFeatures,
@@ -13,10 +15,14 @@ import {
 } from "vscode-languageserver/node";
 import { conlog, symbolAtPosition } from "./common";
 import { clearDiagnostics, COMMAND_compile, compile } from "./compile";
+import * as diagnostics from "./diagnostics";
 import { Galactus } from "./galactus";
 import { preview } from "./preview";
+import * as semantic from "./semantic";
 import * as settings from "./settings";
 import { defaultSettings, MLSsettings } from "./settings";
+import { dialogFileChanged, dialogWatchers } from "./weidu/states";
+import { walkthrough } from "./weidu/walkthrough";
 
 // Create a connection for the server. The connection uses Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -28,6 +34,7 @@ export const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocu
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
+let hasWatchedFilesCapability = false;
 
 let workspaceRoot: string;
 let projectSettings: settings.ProjectSettings;
@@ -45,6 +52,10 @@ connection.onInitialize((params: InitializeParams) => {
     hasWorkspaceFolderCapability = !!(
         capabilities.workspace && !!capabilities.workspace.workspaceFolders
     );
+    hasWatchedFilesCapability = !!(
+        capabilities.workspace &&
+        !!capabilities.workspace.didChangeWatchedFiles?.dynamicRegistration
+    );
 
     const result: InitializeResult = {
         capabilities: {
@@ -56,10 +67,21 @@ connection.onInitialize((params: InitializeParams) => {
             },
             hoverProvider: true,
             signatureHelpProvider: {
-                triggerCharacters: ["("],
+                triggerCharacters: ["(", " "],
             },
             inlayHintProvider: true,
             definitionProvider: true,
+            referencesProvider: true,
+            renameProvider: { prepareProvider: true },
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            semanticTokensProvider: { legend: semantic.legend, full: true },
+            documentFormattingProvider: true,
+            foldingRangeProvider: true,
+            callHierarchyProvider: true,
+            declarationProvider: true,
+            documentRangeFormattingProvider: true,
+            documentLinkProvider: { resolveProvider: false },
         },
     };
     if (hasWorkspaceFolderCapability) {
@@ -93,8 +115,13 @@ connection.onInitialized(async () => {
     const myGala = new Galactus();
     await myGala.init(workspaceRoot, globalSettings, projectSettings.translation);
     gala = myGala;
+    const watchers = [...gala.externalHeadersWatchers(), ...dialogWatchers(workspaceRoot)];
+    if (hasWatchedFilesCapability && watchers.length > 0) {
+        connection.client.register(DidChangeWatchedFilesNotification.type, { watchers: watchers });
+    }
     for (const document of documents.all()) {
         gala.reloadFileData(document.uri, document.languageId, document.getText());
+        scheduleLint(document.uri);
     }
     connection.sendNotification("bgforge-mls/load-finished");
     conlog("onInitialized completed");
@@ -116,6 +143,9 @@ connection.onDidChangeConfiguration((change) => {
 // Only keep settings for open documents
 documents.onDidClose((e) => {
     documentSettings.delete(e.document.uri);
+    clearTimeout(lintTimers.get(e.document.uri));
+    lintTimers.delete(e.document.uri);
+    diagnostics.clear(e.document.uri, "lint");
 });
 
 export function getDocumentSettings(resource: string): Thenable<MLSsettings> {
@@ -142,12 +172,27 @@ documents.onDidOpen((event) => {
     gala?.reloadFileData(uri, langId, text);
 });
 
+connection.onDidChangeWatchedFiles((params) => {
+    for (const change of params.changes) {
+        const deleted = change.type == FileChangeType.Deleted;
+        gala?.reloadExternalHeader(change.uri, deleted);
+        dialogFileChanged(change.uri, deleted);
+    }
+});
+
 // This handler provides the initial list of the completion items.
 connection.onCompletion((_textDocumentPosition: TextDocumentPositionParams) => {
     const uri = _textDocumentPosition.textDocument.uri;
-    // @ts-expect-error: ts2532 because we get uri from a hook, which implies it exists
-    const langId = documents.get(uri).languageId;
-    const result = gala?.completion(langId, uri);
+    const document = documents.get(uri);
+    if (!document) {
+        return;
+    }
+    const result = gala?.completion(
+        document.languageId,
+        uri,
+        document.getText(),
+        _textDocumentPosition.position
+    );
     return result;
 });
 
@@ -183,7 +228,12 @@ connection.onHover((textDocumentPosition: TextDocumentPositionParams) => {
 connection.onExecuteCommand(async (params) => {
     const command = params.command;
     const COMMAND_preview = "extension.bgforge.preview";
-    if (command != COMMAND_compile && command != COMMAND_preview) {
+    const COMMAND_walkthrough = "extension.bgforge.walkthrough";
+    if (
+        command != COMMAND_compile &&
+        command != COMMAND_preview &&
+        command != COMMAND_walkthrough
+    ) {
         return;
     }
 
@@ -210,11 +260,28 @@ connection.onExecuteCommand(async (params) => {
     }
 
     if (command == COMMAND_preview) {
-        const willPreview = preview(text, langId, args.previewSrcDir);
+        const tra = gala?.traEntries(args.uri, langId, text);
+        const willPreview = preview(args.uri, text, langId, args.previewSrcDir, workspaceRoot, tra);
         if (willPreview) {
-            connection.sendNotification("bgforge-mls/start-preview");
+            connection.sendNotification("bgforge-mls/start-preview", { langId: langId });
         }
     }
+
+    if (command == COMMAND_walkthrough) {
+        if (langId != "weidu-d" && langId != "weidu-d-tpl") {
+            connection.window.showInformationMessage(
+                "Dialog walkthrough is only available for D files."
+            );
+            return;
+        }
+        const result = walkthrough(args.uri, text, workspaceRoot, (uri, fileText) =>
+            gala?.traEntries(uri, langId, fileText)
+        );
+        if (!result) {
+            connection.window.showInformationMessage("No dialog states found.");
+        }
+        return result;
+    }
 });
 
 connection.onSignatureHelp((params) => {
@@ -240,9 +307,39 @@ documents.onDidSave(async (change) => {
     }
 });
 
+/** Lint runs after typing pauses for this long, in ms */
+const LINT_DELAY = 300;
+const lintTimers: Map<string, NodeJS.Timeout> = new Map();
+
+async function lint(uri: string) {
+    const document = documents.get(uri);
+    if (!document || !gala) {
+        return;
+    }
+    const version = document.version;
+    const lintResult = await gala.lint(document.languageId, uri, document.getText());
+    // the document may be changed or closed while paths are checked
+    if (lintResult && documents.get(uri)?.version == version) {
+        diagnostics.update(uri, "lint", lintResult);
+    }
+}
+
+/** Lint a document once it stops changing */
+function scheduleLint(uri: string) {
+    clearTimeout(lintTimers.get(uri));
+    lintTimers.set(
+        uri,
+        setTimeout(() => {
+            lintTimers.delete(uri);
+            lint(uri);
+        }, LINT_DELAY)
+    );
+}
+
 documents.onDidChangeContent(async (event) => {
     const uri = event.document.uri;
     clearDiagnostics(uri);
+    scheduleLint(uri);
 
     const validateOnChange = (await getDocumentSettings(uri)).validateOnChange;
     if (validateOnChange) {
@@ -272,5 +369,136 @@ connection.onDefinition((params) => {
     const langId = textDoc.languageId;
     const text = textDoc.getText();
     const symbol = symbolAtPosition(text, params.position);
-    return gala?.definition(langId, symbol);
+    return gala?.definition(langId, uri, text, symbol, params.position);
+});
+
+connection.onDeclaration((params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return;
+    }
+    const text = textDoc.getText();
+    const symbol = symbolAtPosition(text, params.position);
+    return gala?.declaration(textDoc.languageId, uri, text, symbol);
+});
+
+connection.onReferences((params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return;
+    }
+    const langId = textDoc.languageId;
+    const text = textDoc.getText();
+    const symbol = symbolAtPosition(text, params.position);
+    return gala?.references(
+        langId,
+        uri,
+        symbol,
+        text,
+        params.context.includeDeclaration,
+        params.position
+    );
+});
+
+connection.onPrepareRename((params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return;
+    }
+    const langId = textDoc.languageId;
+    const text = textDoc.getText();
+    return gala?.prepareRename(langId, uri, text, params.position);
+});
+
+connection.onRenameRequest((params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return;
+    }
+    const langId = textDoc.languageId;
+    const text = textDoc.getText();
+    return gala?.rename(langId, uri, text, params.position, params.newName);
+});
+
+connection.onDocumentSymbol((params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return;
+    }
+    return gala?.documentSymbols(textDoc.languageId, uri, textDoc.getText());
+});
+
+connection.onWorkspaceSymbol((params) => {
+    return gala?.workspaceSymbols(params.query);
+});
+
+connection.languages.semanticTokens.on((params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return { data: [] };
+    }
+    const result = gala?.semanticTokens(textDoc.languageId, uri, textDoc.getText());
+    return result || { data: [] };
+});
+
+connection.onDocumentFormatting(async (params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return;
+    }
+    const settings = await getDocumentSettings(uri);
+    return gala?.format(textDoc.languageId, textDoc.getText(), params.options, settings);
+});
+
+connection.onDocumentRangeFormatting(async (params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return;
+    }
+    const settings = await getDocumentSettings(uri);
+    const text = textDoc.getText();
+    return gala?.format(textDoc.languageId, text, params.options, settings, params.range);
+});
+
+connection.onFoldingRanges((params) => {
+    const textDoc = documents.get(params.textDocument.uri);
+    if (!textDoc) {
+        return;
+    }
+    return gala?.foldingRanges(textDoc.languageId, textDoc.getText());
+});
+
+connection.onDocumentLinks((params) => {
+    const textDoc = documents.get(params.textDocument.uri);
+    if (!textDoc) {
+        return;
+    }
+    return gala?.documentLinks(textDoc.languageId, textDoc.uri, textDoc.getText());
+});
+
+connection.languages.callHierarchy.onPrepare((params) => {
+    const uri = params.textDocument.uri;
+    const textDoc = documents.get(uri);
+    if (!textDoc) {
+        return null;
+    }
+    const text = textDoc.getText();
+    const symbol = symbolAtPosition(text, params.position);
+    return gala?.prepareCallHierarchy(textDoc.languageId, uri, text, symbol) || null;
+});
+
+connection.languages.callHierarchy.onIncomingCalls((params) => {
+    return gala?.incomingCalls(params.item) || null;
+});
+
+connection.languages.callHierarchy.onOutgoingCalls((params) => {
+    return gala?.outgoingCalls(params.item) || null;
 });
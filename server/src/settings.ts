@@ -2,6 +2,7 @@ import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "yaml";
 import { conlog } from "./common";
+import { BeginPlacement } from "./ssl/format";
 
 export interface SSLsettings {
     compilePath: string;
@@ -9,11 +10,14 @@ export interface SSLsettings {
     compileOptions: string;
     outputDirectory: string;
     headersDirectory: string;
+    formatBeginPlacement: BeginPlacement;
 }
 
 export interface WeiDUsettings {
     path: string;
     gamePath: string;
+    /** A single directory or a list */
+    headersDirectory: string | string[];
 }
 
 export interface MLSsettings {
@@ -34,12 +38,19 @@ export const defaultSettings: MLSsettings = {
         compileOptions: "-q -p -l -O2 -d -s -n",
         outputDirectory: "",
         headersDirectory: "",
+        formatBeginPlacement: "preserve",
     },
-    weidu: { path: "weidu", gamePath: "" },
+    weidu: { path: "weidu", gamePath: "", headersDirectory: "" },
     validateOnSave: true,
     validateOnChange: false,
 };
 
+/** Headers directories from a setting that may be a single path or a list, empty ones skipped */
+export function headersDirectories(setting: string | string[]) {
+    const directories = typeof setting == "string" ? [setting] : setting;
+    return directories.filter((x) => x != "");
+}
+
 export interface ProjectTraSettings {
     directory: string;
     auto_tra: boolean;
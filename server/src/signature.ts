@@ -17,7 +17,7 @@ export interface Data {
     static: SigMap;
 }
 
-export const languages = ["fallout-ssl"];
+export const languages = ["fallout-ssl", "weidu-tp2"];
 
 export function loadStatic(langId: string): SigMap {
     try {
@@ -31,18 +31,57 @@ export function loadStatic(langId: string): SigMap {
     return new Map();
 }
 
-export function getResponse(signature: SignatureInformation, parameter: number) {
+export function getResponse(signature: SignatureInformation, request: Request) {
     const result = {
         signatures: [signature],
         activeSignature: 0,
-        activeParameter: parameter,
+        activeParameter: request.named
+            ? namedParameter(signature, request.named)
+            : request.parameter,
     };
     return result;
 }
 
+/** WeiDU function parameter sections */
+export type Section = "INT_VAR" | "STR_VAR" | "RET" | "RET_ARRAY";
+
 export interface Request {
     symbol: string;
     parameter: number;
+    /** Parameters passed by name, such as WeiDU `INT_VAR x = 1` */
+    named?: NamedParameter;
+}
+
+interface NamedParameter {
+    /** Absent before the first section keyword, nothing is highlighted then */
+    section?: Section;
+    name: string;
+}
+
+/**
+ * Index of a named parameter in the signature label.
+ * Exact match, then the first parameter starting with the name, then the first one in the section.
+ * Out of range if the section has no parameters, so that nothing is highlighted.
+ */
+function namedParameter(signature: SignatureInformation, named: NamedParameter) {
+    const label = signature.label;
+    const parameters = signature.parameters || [];
+    const candidates: { index: number; name: string }[] = [];
+    parameters.forEach((parameter, index) => {
+        if (typeof parameter.label == "string") {
+            return;
+        }
+        const [start, end] = parameter.label;
+        const sections = label.slice(0, start).match(/\b(INT_VAR|STR_VAR|RET_ARRAY|RET)\b/g);
+        if (sections && sections[sections.length - 1] == named.section) {
+            candidates.push({ index: index, name: label.slice(start, end) });
+        }
+    });
+    const match =
+        candidates.find((x) => x.name == named.name) ||
+        candidates.find((x) => named.name != "" && x.name.startsWith(named.name)) ||
+        candidates[0];
+    return match ? match.index : parameters.length;
 }
 
 /** Finds label and current parameter index */
@@ -0,0 +1,515 @@
+/**
+ * Fallout SSL AST
+ *
+ * Syntax tree produced by the parser. All nodes carry source offsets (`start`, `end`),
+ * use `positionConverter` or token positions to get line and character.
+ */
+
+import { Token } from "./lexer";
+
+interface BaseNode {
+    start: number;
+    end: number;
+}
+
+export interface Identifier extends BaseNode {
+    type: "identifier";
+    name: string;
+    token: Token;
+}
+
+// Expressions
+
+export interface NumberLiteral extends BaseNode {
+    type: "number";
+    value: string;
+}
+
+export interface StringLiteral extends BaseNode {
+    type: "string";
+    /** Without quotes */
+    value: string;
+}
+
+/** `@foo`, procedure reference */
+export interface ProcedureRef extends BaseNode {
+    type: "procedure_ref";
+    name: Identifier;
+}
+
+export interface CallExpression extends BaseNode {
+    type: "call_expression";
+    callee: Identifier;
+    args: Expression[];
+}
+
+export interface IndexExpression extends BaseNode {
+    type: "index";
+    object: Expression;
+    index: Expression;
+}
+
+/** `obj.field`, sfall map access */
+export interface MemberExpression extends BaseNode {
+    type: "member";
+    object: Expression;
+    property: Identifier;
+}
+
+export interface UnaryExpression extends BaseNode {
+    type: "unary";
+    operator: string;
+    argument: Expression;
+    postfix: boolean;
+}
+
+export interface BinaryExpression extends BaseNode {
+    type: "binary";
+    operator: string;
+    left: Expression;
+    right: Expression;
+}
+
+/** `:=`, `=`, `+=`, etc. */
+export interface AssignmentExpression extends BaseNode {
+    type: "assignment";
+    operator: string;
+    target: Expression;
+    value: Expression;
+}
+
+/** sfall `a if cond else b` */
+export interface ConditionalExpression extends BaseNode {
+    type: "conditional";
+    condition: Expression;
+    consequent: Expression;
+    alternate: Expression;
+}
+
+/** sfall `[1, 2]` */
+export interface ArrayLiteral extends BaseNode {
+    type: "array";
+    elements: Expression[];
+}
+
+/** sfall `{a: 1, "b": 2}` */
+export interface MapLiteral extends BaseNode {
+    type: "map";
+    entries: { key: Expression; value: Expression }[];
+}
+
+/** Unparseable piece of code, skipped during recovery */
+export interface ErrorNode extends BaseNode {
+    type: "error";
+}
+
+export type Expression =
+    | Identifier
+    | NumberLiteral
+    | StringLiteral
+    | ProcedureRef
+    | CallExpression
+    | IndexExpression
+    | MemberExpression
+    | UnaryExpression
+    | BinaryExpression
+    | AssignmentExpression
+    | ConditionalExpression
+    | ArrayLiteral
+    | MapLiteral
+    | ErrorNode;
+
+// Statements
+
+export interface Block extends BaseNode {
+    type: "block";
+    body: Statement[];
+}
+
+export interface VariableDeclarator extends BaseNode {
+    name: Identifier;
+    /** `variable a[10];` */
+    size?: Expression;
+    init?: Expression;
+}
+
+export interface VariableDeclaration extends BaseNode {
+    type: "variable";
+    scope: "script" | "local" | "import" | "export";
+    declarations: VariableDeclarator[];
+}
+
+export interface IfStatement extends BaseNode {
+    type: "if";
+    condition: Expression;
+    consequent: Statement;
+    alternate?: Statement;
+}
+
+export interface WhileStatement extends BaseNode {
+    type: "while";
+    condition: Expression;
+    body: Statement;
+}
+
+export interface ForStatement extends BaseNode {
+    type: "for";
+    init?: Statement;
+    condition?: Expression;
+    update?: Statement;
+    body: Statement;
+}
+
+/** `foreach (item in list)`, `foreach (key: value in map)` */
+export interface ForeachStatement extends BaseNode {
+    type: "foreach";
+    /** declared with `variable` inside the header */
+    declared: boolean;
+    key?: Identifier;
+    value: Identifier;
+    collection: Expression;
+    /** `foreach (item in list while item > 0)` */
+    condition?: Expression;
+    body: Statement;
+}
+
+export interface SwitchCase extends BaseNode {
+    /** undefined for `default` */
+    test?: Expression;
+    body: Statement[];
+}
+
+export interface SwitchStatement extends BaseNode {
+    type: "switch";
+    discriminant: Expression;
+    cases: SwitchCase[];
+}
+
+/** `call foo;`, `call foo(1) in 10;` */
+export interface CallStatement extends BaseNode {
+    type: "call";
+    callee: Expression;
+    args: Expression[];
+    delay?: Expression;
+}
+
+export interface ReturnStatement extends BaseNode {
+    type: "return";
+    argument?: Expression;
+}
+
+export interface JumpStatement extends BaseNode {
+    type: "break" | "continue";
+}
+
+export interface ExpressionStatement extends BaseNode {
+    type: "expression";
+    expression: Expression;
+}
+
+export type Statement =
+    | Block
+    | VariableDeclaration
+    | IfStatement
+    | WhileStatement
+    | ForStatement
+    | ForeachStatement
+    | SwitchStatement
+    | CallStatement
+    | ReturnStatement
+    | JumpStatement
+    | ExpressionStatement
+    | ErrorNode;
+
+// Top level
+
+export interface Param extends BaseNode {
+    name: Identifier;
+    default?: Expression;
+}
+
+export interface Procedure extends BaseNode {
+    type: "procedure";
+    name: Identifier;
+    params: Param[];
+    /** Raw text between parentheses, for display */
+    paramsText?: string;
+    /** Absent for forward declarations: `procedure foo;` */
+    body?: Block;
+    /** Preceding `/** ... *\/` comment */
+    doc?: Token;
+}
+
+export interface Define extends BaseNode {
+    type: "define";
+    name: Identifier;
+    /** Absent for object-like macros */
+    params?: Identifier[];
+    /** Raw text between parentheses, for display */
+    paramsText?: string;
+    /** Replacement text, continuation lines included */
+    body: string;
+    /** Tokens of replacement text, positioned in the original document */
+    bodyTokens: Token[];
+    multiline: boolean;
+    doc?: Token;
+    /** The whole directive */
+    token: Token;
+}
+
+export interface Include extends BaseNode {
+    type: "include";
+    /** As written, without quotes */
+    path: string;
+    token: Token;
+}
+
+/** Other directives: `#if`, `#ifdef`, `#else`, `#endif`, `#undef`... */
+export interface Directive extends BaseNode {
+    type: "directive";
+    name: string;
+    token: Token;
+}
+
+export type Preprocessor = Define | Include | Directive;
+
+export type TopLevel = Procedure | VariableDeclaration | ErrorNode;
+
+export interface ParseError {
+    message: string;
+    start: number;
+    end: number;
+}
+
+export interface Script {
+    body: TopLevel[];
+    preprocessor: Preprocessor[];
+    /** All tokens, comments and directives included */
+    tokens: Token[];
+    errors: ParseError[];
+}
+
+export type Node = Expression | Statement | TopLevel;
+
+/**
+ * Visit every node in depth-first order.
+ * Return false from callback to skip children of a node.
+ */
+// eslint-disable-next-line no-unused-vars
+export function walk(node: Node, callback: (node: Node) => boolean | void) {
+    if (callback(node) === false) {
+        return;
+    }
+    const visit = (child: Node | undefined) => {
+        if (child) {
+            walk(child, callback);
+        }
+    };
+    switch (node.type) {
+        case "procedure":
+            visit(node.name);
+            for (const param of node.params) {
+                visit(param.name);
+                visit(param.default);
+            }
+            visit(node.body);
+            break;
+        case "block":
+            node.body.forEach(visit);
+            break;
+        case "variable":
+            for (const decl of node.declarations) {
+                visit(decl.name);
+                visit(decl.size);
+                visit(decl.init);
+            }
+            break;
+        case "if":
+            visit(node.condition);
+            visit(node.consequent);
+            visit(node.alternate);
+            break;
+        case "while":
+            visit(node.condition);
+            visit(node.body);
+            break;
+        case "for":
+            visit(node.init);
+            visit(node.condition);
+            visit(node.update);
+            visit(node.body);
+            break;
+        case "foreach":
+            visit(node.key);
+            visit(node.value);
+            visit(node.collection);
+            visit(node.condition);
+            visit(node.body);
+            break;
+        case "switch":
+            visit(node.discriminant);
+            for (const c of node.cases) {
+                visit(c.test);
+                c.body.forEach(visit);
+            }
+            break;
+        case "call":
+            visit(node.callee);
+            node.args.forEach(visit);
+            visit(node.delay);
+            break;
+        case "return":
+            visit(node.argument);
+            break;
+        case "expression":
+            visit(node.expression);
+            break;
+        case "procedure_ref":
+            visit(node.name);
+            break;
+        case "call_expression":
+            visit(node.callee);
+            node.args.forEach(visit);
+            break;
+        case "index":
+            visit(node.object);
+            visit(node.index);
+            break;
+        case "member":
+            visit(node.object);
+            // property is not a standalone identifier, skip it
+            break;
+        case "unary":
+            visit(node.argument);
+            break;
+        case "binary":
+            visit(node.left);
+            visit(node.right);
+            break;
+        case "assignment":
+            visit(node.target);
+            visit(node.value);
+            break;
+        case "conditional":
+            visit(node.condition);
+            visit(node.consequent);
+            visit(node.alternate);
+            break;
+        case "array":
+            node.elements.forEach(visit);
+            break;
+        case "map":
+            for (const entry of node.entries) {
+                visit(entry.key);
+                visit(entry.value);
+            }
+            break;
+    }
+}
+
+/**
+ * Identifiers which declare or define something: procedure, parameter, variable and macro names.
+ * @returns their offsets
+ */
+export function declarationOffsets(script: Script) {
+    const offsets = new Set<number>();
+    for (const node of script.body) {
+        walk(node, (child) => {
+            if (child.type == "procedure") {
+                offsets.add(child.name.start);
+                child.params.forEach((x) => offsets.add(x.name.start));
+            } else if (child.type == "variable") {
+                child.declarations.forEach((x) => offsets.add(x.name.start));
+            } else if (child.type == "foreach" && child.declared) {
+                if (child.key) {
+                    offsets.add(child.key.start);
+                }
+                offsets.add(child.value.start);
+            }
+        });
+    }
+    for (const node of script.preprocessor) {
+        if (node.type == "define") {
+            offsets.add(node.name.start);
+        }
+    }
+    return offsets;
+}
+
+/** Local variables of a procedure, including `foreach (variable item in list)` */
+export function localVariables(procedure: Procedure) {
+    const result: Identifier[] = [];
+    if (!procedure.body) {
+        return result;
+    }
+    walk(procedure.body, (node) => {
+        if (node.type == "variable") {
+            result.push(...node.declarations.map((x) => x.name));
+        } else if (node.type == "foreach" && node.declared) {
+            if (node.key) {
+                result.push(node.key);
+            }
+            result.push(node.value);
+        }
+    });
+    return result;
+}
+
+/** Procedures where `name` is a parameter or a local variable, hiding the script-wide `name` */
+export function localScopes(script: Script, name: string) {
+    const result: Procedure[] = [];
+    for (const node of script.body) {
+        if (node.type != "procedure") {
+            continue;
+        }
+        const locals = [...node.params.map((x) => x.name), ...localVariables(node)];
+        if (locals.some((x) => x.name == name)) {
+            result.push(node);
+        }
+    }
+    return result;
+}
+
+/**
+ * Identifiers in a procedure body which can refer to other procedures: calls, `@proc` references
+ * and procedure names passed as arguments. Parameters and local variables are skipped.
+ * @returns name => usages
+ */
+export function callSites(procedure: Procedure) {
+    const result = new Map<string, Identifier[]>();
+    if (!procedure.body) {
+        return result;
+    }
+    const locals = new Set([
+        ...procedure.params.map((x) => x.name.name),
+        ...localVariables(procedure).map((x) => x.name),
+    ]);
+    walk(procedure.body, (node) => {
+        if (node.type != "identifier" || locals.has(node.name)) {
+            return;
+        }
+        const sites = result.get(node.name);
+        if (sites) {
+            sites.push(node);
+        } else {
+            result.set(node.name, [node]);
+        }
+    });
+    return result;
+}
+
+/**
+ * Map fields, `map.field`, are not symbols.
+ * @returns their offsets
+ */
+export function propertyOffsets(script: Script) {
+    const offsets = new Set<number>();
+    for (const node of script.body) {
+        walk(node, (child) => {
+            if (child.type == "member") {
+                offsets.add(child.property.start);
+            }
+        });
+    }
+    return offsets;
+}
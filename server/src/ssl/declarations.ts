@@ -0,0 +1,78 @@
+/**
+ * Fallout SSL forward declarations
+ *
+ * Procedures are declared at the top of a script, `procedure foo(variable x);`,
+ * and defined later. Declarations are checked against definitions.
+ */
+
+import { Diagnostic, DiagnosticSeverity, Location } from "vscode-languageserver/node";
+import * as ast from "./ast";
+import { tokenRange } from "./lexer";
+import { parse } from "./parser";
+
+function procedures(script: ast.Script) {
+    return script.body.filter((x): x is ast.Procedure => x.type == "procedure");
+}
+
+/** Forward declaration of procedure `symbol` in the script itself */
+export function declaration(uri: string, text: string, symbol: string) {
+    const declared = procedures(parse(text)).find((x) => !x.body && x.name.name == symbol);
+    if (declared) {
+        const result: Location = { uri: uri, range: tokenRange(declared.name.token) };
+        return result;
+    }
+}
+
+/**
+ * Declarations which are never defined, and those whose number of parameters doesn't match
+ * the definition. Headers declare procedures defined in the scripts including them,
+ * so there undefined declarations are fine.
+ * @param externalProcedures procedures defined in headers
+ */
+export function checkDeclarations(uri: string, text: string, externalProcedures: Set<string>) {
+    const header = uri.toLowerCase().endsWith(".h");
+    const all = procedures(parse(text));
+    const definitions = new Map<string, ast.Procedure>();
+    for (const procedure of all) {
+        if (procedure.body && !definitions.has(procedure.name.name)) {
+            definitions.set(procedure.name.name, procedure);
+        }
+    }
+
+    const result: Diagnostic[] = [];
+    for (const declared of all) {
+        if (declared.body) {
+            continue;
+        }
+        const name = declared.name.name;
+        const defined = definitions.get(name);
+        if (!defined) {
+            if (!header && !externalProcedures.has(name)) {
+                result.push({
+                    severity: DiagnosticSeverity.Warning,
+                    range: tokenRange(declared.name.token),
+                    message: `Procedure ${name} is declared, but never defined.`,
+                    source: "BGforge MLS",
+                });
+            }
+            continue;
+        }
+        const declaredParams = declared.params.length;
+        const definedParams = defined.params.length;
+        if (declaredParams != definedParams) {
+            result.push({
+                severity: DiagnosticSeverity.Warning,
+                range: tokenRange(defined.name.token),
+                message: `Procedure ${name} has ${definedParams} parameters, but its declaration has ${declaredParams}.`,
+                source: "BGforge MLS",
+                relatedInformation: [
+                    {
+                        location: { uri: uri, range: tokenRange(declared.name.token) },
+                        message: "Declaration",
+                    },
+                ],
+            });
+        }
+    }
+    return result;
+}
@@ -0,0 +1,65 @@
+/**
+ * Fallout SSL folding ranges
+ *
+ * Based on tokens rather than indentation: `procedure..end`, `begin..end` blocks,
+ * `#if..#endif` preprocessor sections and block comments.
+ */
+
+import { FoldingRange } from "vscode-languageserver/node";
+import * as folding from "../folding";
+import { isKeyword, isOperator, tokenize } from "./lexer";
+
+/** Blocks are folded starting from these, if `begin` is on a later line */
+const headerKeywords = ["procedure", "if", "else", "while", "for", "foreach", "switch"];
+
+const directiveRegex = /^#\s*(\w+)/;
+
+export function foldingRanges(text: string) {
+    const tokens = tokenize(text);
+    const ranges: FoldingRange[] = [];
+    /** Start lines of open `begin` blocks */
+    const blocks: number[] = [];
+    /** Start lines of open `#if` sections */
+    const sections: number[] = [];
+    let header: number | undefined;
+
+    for (const token of tokens) {
+        if (token.kind == "preprocessor") {
+            const match = token.value.match(directiveRegex);
+            const directive = match ? match[1] : "";
+            if (["if", "ifdef", "ifndef"].includes(directive)) {
+                sections.push(token.line);
+            } else if (["elif", "else", "endif"].includes(directive)) {
+                const start = sections.pop();
+                if (start !== undefined) {
+                    folding.addBlock(ranges, start, token.line);
+                }
+                if (directive != "endif") {
+                    sections.push(token.line);
+                }
+            }
+            continue;
+        }
+        if (token.kind == "comment") {
+            continue;
+        }
+
+        if (isKeyword(token, "begin")) {
+            blocks.push(header ?? token.line);
+            header = undefined;
+        } else if (isKeyword(token, "end")) {
+            const start = blocks.pop();
+            if (start !== undefined) {
+                folding.addBlock(ranges, start, token.line);
+            }
+        } else if (headerKeywords.some((x) => isKeyword(token, x))) {
+            header = header ?? token.line;
+        } else if (isOperator(token, ";")) {
+            // forward declarations and single statement bodies
+            header = undefined;
+        }
+    }
+
+    ranges.push(...folding.comments(tokens));
+    return ranges;
+}
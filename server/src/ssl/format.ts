@@ -0,0 +1,276 @@
+/**
+ * Fallout SSL formatter
+ *
+ * Token based: code is re-indented according to block nesting and `begin` is optionally moved,
+ * but otherwise lines are kept as they are. Preprocessor directives are left untouched,
+ * comments are only re-indented.
+ */
+
+import { LineRange } from "../format";
+import { isKeyword, isOperator, Token, tokenize } from "./lexer";
+
+/** Where to put `begin` of procedures, `if`, loops, etc. */
+export type BeginPlacement = "sameLine" | "newLine" | "preserve";
+
+export interface FormatOptions {
+    /** One level of indentation: tab or spaces */
+    indent: string;
+    beginPlacement: BeginPlacement;
+}
+
+interface LineInfo {
+    /** Tokens starting on this line */
+    tokens: Token[];
+    /** Line starts inside a multiline comment or directive */
+    continued?: Token;
+    /** Line ends inside a multiline comment or directive */
+    open: boolean;
+}
+
+function lineInfo(lines: string[]) {
+    const info: LineInfo[] = lines.map(() => ({ tokens: [], open: false }));
+    for (const token of tokenize(lines.join("\n"))) {
+        info[token.line].tokens.push(token);
+        const lastLine = token.line + token.value.split("\n").length - 1;
+        if (lastLine > token.line) {
+            info[token.line].open = true;
+            for (let i = token.line + 1; i <= lastLine; i++) {
+                info[i].continued = token;
+                info[i].open = i < lastLine;
+            }
+        }
+    }
+    return info;
+}
+
+function isCode(token: Token | undefined) {
+    return token !== undefined && token.kind != "comment" && token.kind != "preprocessor";
+}
+
+function lastCodeToken(tokens: Token[]) {
+    for (let i = tokens.length - 1; i >= 0; i--) {
+        if (isCode(tokens[i])) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/** Line is `begin`, possibly followed by something else */
+function startsWithBegin(info: LineInfo) {
+    return !info.continued && !info.open && isKeyword(info.tokens[0], "begin");
+}
+
+/** Line is a header that `begin` can be appended to: `if x then`, `procedure foo` */
+function takesBegin(info: LineInfo) {
+    const last = info.tokens[info.tokens.length - 1];
+    return (
+        !info.continued &&
+        !info.open &&
+        isCode(last) &&
+        !isOperator(last, ";") &&
+        !isKeyword(last, "begin") &&
+        !isKeyword(last, "end")
+    );
+}
+
+/** Join or split `begin` lines inside `range` */
+function placeBegin(lines: string[], placement: BeginPlacement, range: LineRange) {
+    if (placement == "preserve") {
+        return lines;
+    }
+    const info = lineInfo(lines);
+    const result: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const inRange = i >= range.start && i <= range.end;
+        if (
+            placement == "sameLine" &&
+            inRange &&
+            i > range.start &&
+            startsWithBegin(info[i]) &&
+            takesBegin(info[i - 1])
+        ) {
+            // previous line is never modified, it doesn't end with begin
+            result[result.length - 1] = `${result[result.length - 1].trimEnd()} ${line.trim()}`;
+            continue;
+        }
+        if (placement == "newLine" && inRange && !info[i].continued && !info[i].open) {
+            const tokens = info[i].tokens;
+            const last = lastCodeToken(tokens);
+            if (last > 0 && isKeyword(tokens[last], "begin")) {
+                const begin = tokens[last];
+                result.push(line.slice(0, begin.character).trimEnd(), line.slice(begin.character));
+                continue;
+            }
+        }
+        result.push(line);
+    }
+    return result;
+}
+
+interface Block {
+    indent: number;
+    switch: boolean;
+    /** Statements after `case` get extra indentation */
+    caseSeen: boolean;
+}
+
+/** Lines ending with these continue on the next line as a nested statement */
+const headerKeywords = ["then", "else", "do"];
+/** Lines starting with these are headers, unless closed with `;` or `begin` */
+const headerStartKeywords = ["if", "else", "while", "for", "foreach"];
+
+/**
+ * Indentation level of every line.
+ * @returns undefined for lines which are kept as is
+ */
+function indentLevels(lines: string[], info: LineInfo[]) {
+    const levels: (number | undefined)[] = [];
+    let blocks: Block[] = [];
+    /** Pending single statement bodies: `if x then` without `begin` */
+    let hang = 0;
+    /** Previous statement is not finished */
+    let continuation = false;
+    let parens = 0;
+    let pendingSwitch = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = info[i];
+        const first = line.tokens[0];
+        if (line.continued || !first || first.kind == "preprocessor") {
+            levels.push(undefined);
+            continue;
+        }
+
+        if (isKeyword(first, "procedure")) {
+            // recover from unbalanced blocks
+            blocks = [];
+            hang = 0;
+            continuation = false;
+            parens = 0;
+        }
+
+        const top = blocks[blocks.length - 1];
+        let base = 0;
+        if (top) {
+            base = top.indent + 1;
+            if (top.switch && top.caseSeen) {
+                base++;
+            }
+        }
+
+        let level: number;
+        if (isKeyword(first, "end")) {
+            level = top ? top.indent : 0;
+        } else if (top?.switch && (isKeyword(first, "case") || isKeyword(first, "default"))) {
+            level = top.indent + 1;
+            top.caseSeen = true;
+        } else if (isKeyword(first, "begin")) {
+            level = base + Math.max(hang - 1, 0);
+        } else if (parens > 0) {
+            level = base + hang + 1;
+        } else {
+            level = base + hang + (continuation ? 1 : 0);
+        }
+        levels.push(level);
+
+        const code = line.tokens.filter(isCode);
+        if (code.length == 0) {
+            // comment lines don't affect anything
+            continue;
+        }
+
+        let endsWithBegin = false;
+        for (const token of code) {
+            endsWithBegin = false;
+            if (isOperator(token, "(") || isOperator(token, "[") || isOperator(token, "{")) {
+                parens++;
+            } else if (isOperator(token, ")") || isOperator(token, "]") || isOperator(token, "}")) {
+                parens = Math.max(parens - 1, 0);
+            } else if (isKeyword(token, "switch")) {
+                pendingSwitch = true;
+            } else if (isKeyword(token, "begin")) {
+                blocks.push({ indent: level, switch: pendingSwitch, caseSeen: false });
+                pendingSwitch = false;
+                endsWithBegin = true;
+            } else if (isKeyword(token, "end")) {
+                blocks.pop();
+            }
+        }
+
+        if (parens > 0) {
+            continue;
+        }
+        const last = code[code.length - 1];
+        const header =
+            headerKeywords.some((x) => isKeyword(last, x)) ||
+            (headerStartKeywords.some((x) => isKeyword(code[0], x)) &&
+                !isOperator(last, ";") &&
+                !isKeyword(last, "end"));
+        if (endsWithBegin) {
+            hang = 0;
+            continuation = false;
+        } else if (header) {
+            hang++;
+            continuation = false;
+        } else if (
+            isOperator(last, ";") ||
+            isOperator(last, ":") ||
+            isKeyword(last, "end") ||
+            isKeyword(first, "procedure")
+        ) {
+            hang = 0;
+            continuation = false;
+        } else {
+            continuation = true;
+        }
+    }
+    return levels;
+}
+
+function indentLines(lines: string[], indent: string) {
+    const info = lineInfo(lines);
+    const levels = indentLevels(lines, info);
+    /** Indentation of the line where the current multiline comment started */
+    let commentIndent = "";
+    return lines.map((line, i) => {
+        const level = levels[i];
+        const continued = info[i].continued;
+        if (continued) {
+            const trimmed = line.trim();
+            // align jsdoc style ` * ` lines, leave the rest as is
+            if (continued.kind == "comment" && trimmed.startsWith("*")) {
+                return `${commentIndent} ${trimmed}`;
+            }
+            return line;
+        }
+        if (level === undefined) {
+            // blank lines and directives
+            return line.trim() == "" ? "" : line;
+        }
+        const prefix = indent.repeat(level);
+        commentIndent = prefix;
+        return prefix + line.trim();
+    });
+}
+
+/**
+ * Format a script or header.
+ * @param range lines to format, whole text by default
+ * @returns formatted lines of the range, or undefined if nothing changed
+ */
+export function format(text: string, options: FormatOptions, range?: LineRange) {
+    const lines = text.split(/\r?\n/);
+    const lineRange = range || { start: 0, end: lines.length - 1 };
+    const placed = placeBegin(lines, options.beginPlacement, lineRange);
+    // begin placement only changes line count inside the range
+    const placedEnd = lineRange.end + placed.length - lines.length;
+    const indented = indentLines(placed, options.indent);
+    const result = indented.slice(lineRange.start, placedEnd + 1);
+    const original = lines.slice(lineRange.start, lineRange.end + 1);
+    if (result.join("\n") == original.join("\n")) {
+        return;
+    }
+    return result;
+}
@@ -0,0 +1,310 @@
+/**
+ * Fallout SSL Lexer
+ *
+ * Splits SSL source into tokens, keeping comments and preprocessor directives
+ * so that consumers can work with the original text positions.
+ */
+
+import { Position, Range } from "vscode-languageserver/node";
+
+/**
+ * `preprocessor` is a whole directive line, including `\` continuations:
+ * `#define X 1`, `#include "a.h"`
+ */
+export type TokenKind =
+    | "identifier"
+    | "keyword"
+    | "number"
+    | "string"
+    | "operator"
+    | "comment"
+    | "preprocessor";
+
+export interface Token {
+    kind: TokenKind;
+    /** Original text. Keywords are additionally available lowercased in `keyword`. */
+    value: string;
+    start: number;
+    end: number;
+    line: number;
+    character: number;
+    /** Lowercase keyword, only set for `"keyword"` */
+    keyword?: string;
+}
+
+/** SSL keywords are case insensitive */
+export const keywords = new Set([
+    "procedure",
+    "begin",
+    "end",
+    "variable",
+    "import",
+    "export",
+    "if",
+    "then",
+    "else",
+    "while",
+    "do",
+    "for",
+    "foreach",
+    "in",
+    "break",
+    "continue",
+    "return",
+    "call",
+    "switch",
+    "case",
+    "default",
+    "and",
+    "or",
+    "not",
+    "andalso",
+    "orelse",
+    "bwand",
+    "bwor",
+    "bwxor",
+    "bwnot",
+]);
+
+/** Longest first, so that `:=` wins over `:` */
+const operators = [
+    ":=",
+    "+=",
+    "-=",
+    "*=",
+    "/=",
+    "==",
+    "!=",
+    "<=",
+    ">=",
+    "++",
+    "--",
+    "+",
+    "-",
+    "*",
+    "/",
+    "%",
+    "^",
+    "<",
+    ">",
+    "=",
+    "!",
+    "&",
+    "|",
+    "@",
+    ".",
+    ",",
+    ";",
+    ":",
+    "?",
+    "(",
+    ")",
+    "[",
+    "]",
+    "{",
+    "}",
+];
+
+const numberRegex = /0x[0-9a-fA-F]+|\d+(\.\d+)?/y;
+
+/**
+ * Tokenize SSL text. Never throws: unknown characters become single char operators,
+ * unterminated comments and strings run to the end of text and line respectively.
+ */
+export function tokenize(text: string): Token[] {
+    return scan(text, 0, text.length, 0, 0, true);
+}
+
+/**
+ * Tokenize contents of a directive, such as `#define` replacement text.
+ * Tokens are positioned in the original text, `#` is an ordinary operator there.
+ */
+export function tokenizeDirective(text: string, directive: Token, start: number) {
+    let line = directive.line;
+    let lineStart = directive.start - directive.character;
+    for (let i = directive.start; i < start; i++) {
+        if (text[i] == "\n") {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return scan(text, start, directive.end, line, lineStart, false);
+}
+
+/**
+ * @param lineStart offset of the beginning of `line`
+ * @param directives whether `#` at line start begins a preprocessor directive
+ */
+function scan(
+    text: string,
+    from: number,
+    to: number,
+    line: number,
+    lineStart: number,
+    directives: boolean
+): Token[] {
+    const tokens: Token[] = [];
+    let pos = from;
+    // only whitespace seen since the beginning of the line, so `#` starts a directive
+    let atLineStart = directives;
+
+    /** Advance `pos` to `end`, keeping track of line numbers */
+    function advance(end: number) {
+        for (let i = pos; i < end; i++) {
+            if (text[i] == "\n") {
+                line++;
+                lineStart = i + 1;
+            }
+        }
+        pos = end;
+    }
+
+    function push(kind: TokenKind, end: number) {
+        const value = text.slice(pos, end);
+        const token: Token = {
+            kind: kind,
+            value: value,
+            start: pos,
+            end: end,
+            line: line,
+            character: pos - lineStart,
+        };
+        if (kind == "identifier" && keywords.has(value.toLowerCase())) {
+            token.kind = "keyword";
+            token.keyword = value.toLowerCase();
+        }
+        tokens.push(token);
+        advance(end);
+    }
+
+    while (pos < to) {
+        const c = text[pos];
+        const next = text[pos + 1];
+
+        if (c == "\n") {
+            advance(pos + 1);
+            atLineStart = directives;
+            continue;
+        }
+        if (c == " " || c == "\t" || c == "\r" || c == "\f" || c == "\v") {
+            advance(pos + 1);
+            continue;
+        }
+
+        if (c == "#" && atLineStart) {
+            push("preprocessor", directiveEnd(text, pos));
+            continue;
+        }
+        atLineStart = false;
+
+        if (c == "/" && next == "/") {
+            const eol = text.indexOf("\n", pos);
+            push("comment", eol == -1 || eol > to ? to : eol);
+            continue;
+        }
+        if (c == "/" && next == "*") {
+            const close = text.indexOf("*/", pos + 2);
+            push("comment", close == -1 || close + 2 > to ? to : close + 2);
+            continue;
+        }
+        if (c == '"') {
+            let end = pos + 1;
+            while (end < to && text[end] != '"' && text[end] != "\n") {
+                end++;
+            }
+            if (text[end] == '"') {
+                end++;
+            }
+            push("string", end);
+            continue;
+        }
+
+        if (c >= "0" && c <= "9") {
+            numberRegex.lastIndex = pos;
+            const number = numberRegex.exec(text) as RegExpExecArray;
+            push("number", Math.min(pos + number[0].length, to));
+            continue;
+        }
+        if (/[A-Za-z_]/.test(c)) {
+            let end = pos + 1;
+            while (end < to && /\w/.test(text[end])) {
+                end++;
+            }
+            push("identifier", end);
+            continue;
+        }
+
+        const op = operators.find((x) => text.startsWith(x, pos)) || c;
+        push("operator", pos + op.length);
+    }
+    return tokens;
+}
+
+/** Directive runs to the end of line, continued by trailing backslashes */
+function directiveEnd(text: string, start: number) {
+    let end = start;
+    for (;;) {
+        const eol = text.indexOf("\n", end);
+        if (eol == -1) {
+            return text.length;
+        }
+        const lineText = text.slice(end, eol).trimEnd();
+        if (!lineText.endsWith("\\")) {
+            // don't include \r
+            return end + text.slice(end, eol).replace(/\r$/, "").length;
+        }
+        end = eol + 1;
+    }
+}
+
+/** Code tokens only, comments and directives skipped */
+export function codeTokens(tokens: Token[]) {
+    return tokens.filter((x) => x.kind != "comment" && x.kind != "preprocessor");
+}
+
+export function isKeyword(token: Token | undefined, keyword: string) {
+    return token !== undefined && token.keyword == keyword;
+}
+
+export function isOperator(token: Token | undefined, operator: string) {
+    return token !== undefined && token.kind == "operator" && token.value == operator;
+}
+
+export function tokenStart(token: Token): Position {
+    return { line: token.line, character: token.character };
+}
+
+export function tokenEnd(token: Token): Position {
+    const lines = token.value.split("\n");
+    if (lines.length == 1) {
+        return { line: token.line, character: token.character + token.value.length };
+    }
+    return { line: token.line + lines.length - 1, character: lines[lines.length - 1].length };
+}
+
+/** @returns function converting text offsets to positions, for AST nodes */
+export function positionConverter(text: string) {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] == "\n") {
+            lineStarts.push(i + 1);
+        }
+    }
+    return (offset: number): Position => {
+        let low = 0;
+        let high = lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return { line: low, character: offset - lineStarts[low] };
+    };
+}
+
+export function tokenRange(token: Token): Range {
+    return { start: tokenStart(token), end: tokenEnd(token) };
+}
@@ -0,0 +1,1118 @@
+/**
+ * Fallout SSL Parser
+ *
+ * Builds an AST out of lexer tokens. Error tolerant: on unexpected input an error is recorded
+ * and parsing resumes at the next statement or procedure, so that code being typed
+ * still produces a usable tree.
+ */
+
+import * as ast from "./ast";
+import {
+    codeTokens,
+    isKeyword,
+    isOperator,
+    Token,
+    tokenEnd,
+    tokenize,
+    tokenizeDirective,
+} from "./lexer";
+
+const assignmentOperators = new Set([":=", "=", "+=", "-=", "*=", "/="]);
+
+/** Binding power of binary operators, higher binds tighter */
+const binaryPrecedence = new Map([
+    ["or", 3],
+    ["orelse", 3],
+    ["bwor", 3],
+    ["and", 4],
+    ["andalso", 4],
+    ["bwand", 4],
+    ["bwxor", 4],
+    ["==", 6],
+    ["!=", 6],
+    ["<", 6],
+    [">", 6],
+    ["<=", 6],
+    [">=", 6],
+    ["+", 7],
+    ["-", 7],
+    ["*", 8],
+    ["/", 8],
+    ["%", 8],
+    ["^", 9],
+]);
+const ASSIGNMENT_PRECEDENCE = 1;
+const CONDITIONAL_PRECEDENCE = 2;
+const NOT_PRECEDENCE = 5;
+const UNARY_PRECEDENCE = 10;
+const prefixOperators = new Set(["-", "+", "!", "bwnot", "++", "--"]);
+
+/** Keywords that begin a statement, parsing resumes at them after an error */
+const statementKeywords = new Set([
+    "begin",
+    "end",
+    "variable",
+    "if",
+    "else",
+    "while",
+    "for",
+    "foreach",
+    "switch",
+    "case",
+    "default",
+    "return",
+    "break",
+    "continue",
+    "call",
+    "procedure",
+]);
+
+const topLevelKeywords = new Set(["procedure", "variable", "import", "export"]);
+
+/** Operator text of a token: lowercase keyword, or operator itself */
+function operatorOf(token: Token | undefined) {
+    if (token === undefined) {
+        return;
+    }
+    if (token.kind == "keyword") {
+        return token.keyword;
+    }
+    if (token.kind == "operator") {
+        return token.value;
+    }
+}
+
+function isStatementKeyword(token: Token) {
+    return token.keyword !== undefined && statementKeywords.has(token.keyword);
+}
+
+/** Tokens which can't be skipped as part of a broken expression */
+function isExpressionBoundary(token: Token) {
+    return (
+        isStatementKeyword(token) ||
+        [";", ")", "]", "}", ","].some((x) => isOperator(token, x)) ||
+        ["then", "do", "in"].some((x) => isKeyword(token, x))
+    );
+}
+
+/** Multiline `/**` comment, as expected by jsdoc parser */
+const docRegex = /^\/\*\*\s*\n/;
+
+/**
+ * Doc comments immediately preceding a token, on the same or the previous line.
+ * @returns map of token to its doc comment
+ */
+function docComments(tokens: Token[]) {
+    const docs = new Map<Token, Token>();
+    for (let i = 1; i < tokens.length; i++) {
+        const prev = tokens[i - 1];
+        if (
+            prev.kind == "comment" &&
+            docRegex.test(prev.value) &&
+            tokenEnd(prev).line >= tokens[i].line - 1
+        ) {
+            docs.set(tokens[i], prev);
+        }
+    }
+    return docs;
+}
+
+class Parser {
+    private readonly tokens: Token[];
+    private pos = 0;
+    /** Last consumed token */
+    private last: Token | undefined;
+    private readonly text: string;
+    private readonly docs: Map<Token, Token>;
+    readonly errors: ast.ParseError[] = [];
+
+    constructor(text: string, allTokens: Token[], docs: Map<Token, Token>) {
+        this.text = text;
+        this.tokens = codeTokens(allTokens);
+        this.docs = docs;
+    }
+
+    parseScript() {
+        const body: ast.TopLevel[] = [];
+        while (!this.eof()) {
+            const start = this.pos;
+            const node = this.parseTopLevel();
+            if (node) {
+                body.push(node);
+            }
+            if (this.pos == start) {
+                this.advance();
+            }
+        }
+        return body;
+    }
+
+    // Helpers
+
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private eof() {
+        return this.pos >= this.tokens.length;
+    }
+
+    private advance() {
+        const token = this.tokens[this.pos];
+        this.pos++;
+        this.last = token;
+        return token;
+    }
+
+    /** End offset of the last consumed token */
+    private lastEnd() {
+        return this.last ? this.last.end : 0;
+    }
+
+    private isKeyword(keyword: string) {
+        return isKeyword(this.peek(), keyword);
+    }
+
+    private isOperator(operator: string) {
+        return isOperator(this.peek(), operator);
+    }
+
+    private isIdentifier() {
+        return this.peek()?.kind == "identifier";
+    }
+
+    /** Record an error at `token`, or at the end of the last consumed token */
+    private error(message: string, token?: Token) {
+        if (token) {
+            this.errors.push({ message: message, start: token.start, end: token.end });
+        } else {
+            const end = this.lastEnd();
+            this.errors.push({ message: message, start: end, end: end });
+        }
+    }
+
+    private errorNode(start: number): ast.ErrorNode {
+        return { type: "error", start: start, end: Math.max(start, this.lastEnd()) };
+    }
+
+    private expectOperator(operator: string) {
+        if (this.isOperator(operator)) {
+            this.advance();
+            return true;
+        }
+        this.error(`Expecting "${operator}"`);
+        return false;
+    }
+
+    private expectKeyword(keyword: string) {
+        if (this.isKeyword(keyword)) {
+            this.advance();
+            return true;
+        }
+        this.error(`Expecting "${keyword}"`);
+        return false;
+    }
+
+    /**
+     * Statement terminator. If it's missing, skip the rest of the line,
+     * unless the next token clearly starts something else.
+     */
+    private expectSemicolon() {
+        if (this.expectOperator(";")) {
+            return;
+        }
+        const line = this.last ? tokenEnd(this.last).line : 0;
+        let token = this.peek();
+        while (token && token.line == line && !isStatementKeyword(token)) {
+            this.advance();
+            if (isOperator(token, ";")) {
+                return;
+            }
+            token = this.peek();
+        }
+    }
+
+    private identifier(): ast.Identifier {
+        const token = this.advance();
+        return {
+            type: "identifier",
+            name: token.value,
+            token: token,
+            start: token.start,
+            end: token.end,
+        };
+    }
+
+    /** Skip to the next token satisfying `stop`, always consuming at least one token */
+    // eslint-disable-next-line no-unused-vars
+    private recover(message: string, stop: (token: Token) => boolean): ast.ErrorNode {
+        const first = this.peek();
+        this.error(message, first);
+        if (!first) {
+            return this.errorNode(this.lastEnd());
+        }
+        this.advance();
+        let token = this.peek();
+        while (token && !stop(token)) {
+            this.advance();
+            token = this.peek();
+        }
+        return this.errorNode(first.start);
+    }
+
+    /** Skip the broken statement, up to and including `;` */
+    private recoverStatement(message: string) {
+        const node = this.recover(
+            message,
+            (token) => isOperator(token, ";") || isStatementKeyword(token)
+        );
+        if (this.isOperator(";")) {
+            this.advance();
+            node.end = this.lastEnd();
+        }
+        return node;
+    }
+
+    // Top level
+
+    private parseTopLevel(): ast.TopLevel | undefined {
+        const token = this.peek() as Token;
+        if (isKeyword(token, "procedure")) {
+            return this.parseProcedure();
+        }
+        if (isKeyword(token, "variable")) {
+            return this.parseVariable("script");
+        }
+        if (
+            (isKeyword(token, "import") || isKeyword(token, "export")) &&
+            isKeyword(this.peek(1), "variable")
+        ) {
+            this.advance();
+            return this.parseVariable(token.keyword as "import" | "export", token);
+        }
+        // sslc tolerates stray semicolons
+        if (isOperator(token, ";")) {
+            this.advance();
+            return;
+        }
+        return this.recover("Expecting top-level statement", (x) =>
+            topLevelKeywords.has(x.keyword || "")
+        );
+    }
+
+    private parseProcedure(): ast.Procedure | ast.ErrorNode {
+        const keyword = this.advance();
+        if (!this.isIdentifier()) {
+            this.error("Expecting procedure name");
+            return this.errorNode(keyword.start);
+        }
+        const name = this.identifier();
+        const params: ast.Param[] = [];
+        let paramsText: string | undefined;
+        if (this.isOperator("(")) {
+            const open = this.advance();
+            while (!this.eof() && !this.isOperator(")")) {
+                if (
+                    this.isKeyword("begin") ||
+                    this.isOperator(";") ||
+                    this.isKeyword("procedure")
+                ) {
+                    break;
+                }
+                const start = (this.peek() as Token).start;
+                if (this.isKeyword("variable")) {
+                    this.advance();
+                }
+                if (!this.isIdentifier()) {
+                    this.error("Expecting parameter name", this.peek());
+                    this.advance();
+                    continue;
+                }
+                const param: ast.Param = { name: this.identifier(), start: start, end: 0 };
+                if (this.isOperator(":=") || this.isOperator("=")) {
+                    this.advance();
+                    param.default = this.parseExpression();
+                }
+                param.end = this.lastEnd();
+                params.push(param);
+                if (this.isOperator(",")) {
+                    this.advance();
+                } else if (!this.isOperator(")")) {
+                    break;
+                }
+            }
+            const close = this.isOperator(")") ? (this.peek() as Token).start : this.lastEnd();
+            paramsText = this.text.slice(open.end, close);
+            this.expectOperator(")");
+        }
+
+        const procedure: ast.Procedure = {
+            type: "procedure",
+            name: name,
+            params: params,
+            paramsText: paramsText,
+            doc: this.docs.get(keyword),
+            start: keyword.start,
+            end: 0,
+        };
+        if (this.isKeyword("begin")) {
+            procedure.body = this.parseBlock();
+        } else {
+            // forward declaration
+            this.expectSemicolon();
+        }
+        procedure.end = this.lastEnd();
+        return procedure;
+    }
+
+    /**
+     * `variable a, b := 1, c[10];` or `variable begin a; b := 1; end`
+     * @param inline `for` loop initializer, no terminator
+     */
+    private parseVariable(
+        scope: ast.VariableDeclaration["scope"],
+        startToken?: Token,
+        inline = false
+    ): ast.VariableDeclaration {
+        const keyword = this.advance();
+        const node: ast.VariableDeclaration = {
+            type: "variable",
+            scope: scope,
+            declarations: [],
+            start: (startToken || keyword).start,
+            end: 0,
+        };
+        if (this.isKeyword("begin") && !inline) {
+            this.advance();
+            while (!this.eof() && !this.isKeyword("end") && !this.isKeyword("procedure")) {
+                const start = this.pos;
+                const declarator = this.parseDeclarator();
+                if (declarator) {
+                    node.declarations.push(declarator);
+                }
+                if (this.isOperator(";") || this.isOperator(",")) {
+                    this.advance();
+                } else if (this.pos == start) {
+                    this.advance();
+                }
+            }
+            this.expectKeyword("end");
+        } else {
+            for (;;) {
+                const declarator = this.parseDeclarator();
+                if (declarator) {
+                    node.declarations.push(declarator);
+                }
+                if (!this.isOperator(",")) {
+                    break;
+                }
+                this.advance();
+            }
+            if (!inline) {
+                this.expectSemicolon();
+            }
+        }
+        node.end = this.lastEnd();
+        return node;
+    }
+
+    private parseDeclarator(): ast.VariableDeclarator | undefined {
+        if (!this.isIdentifier()) {
+            this.error("Expecting variable name", this.peek());
+            return;
+        }
+        const name = this.identifier();
+        const declarator: ast.VariableDeclarator = { name: name, start: name.start, end: 0 };
+        if (this.isOperator("[")) {
+            this.advance();
+            declarator.size = this.parseExpression();
+            this.expectOperator("]");
+        }
+        if (this.isOperator(":=") || this.isOperator("=")) {
+            this.advance();
+            declarator.init = this.parseExpression();
+        }
+        declarator.end = this.lastEnd();
+        return declarator;
+    }
+
+    // Statements
+
+    /** `begin ... end`. Unterminated blocks end before the next procedure. */
+    private parseBlock(): ast.Block {
+        const begin = this.advance();
+        const body = this.parseStatements(() => this.isKeyword("end"));
+        if (this.isKeyword("end")) {
+            this.advance();
+        } else {
+            this.error('Expecting "end"', begin);
+        }
+        return { type: "block", body: body, start: begin.start, end: this.lastEnd() };
+    }
+
+    /** Statements until `stop`, the end of text or the next procedure */
+    private parseStatements(stop: () => boolean) {
+        const body: ast.Statement[] = [];
+        while (!this.eof() && !stop() && !this.isKeyword("procedure")) {
+            const start = this.pos;
+            const statement = this.parseStatement();
+            if (statement) {
+                body.push(statement);
+            }
+            if (this.pos == start) {
+                this.advance();
+            }
+        }
+        return body;
+    }
+
+    /** Body of `if`, `while`, etc. Empty `;` becomes an empty block. */
+    private parseBody(): ast.Statement {
+        const token = this.peek();
+        if (
+            !token ||
+            isKeyword(token, "end") ||
+            isKeyword(token, "procedure") ||
+            isKeyword(token, "else")
+        ) {
+            this.error("Expecting statement");
+            return this.errorNode(this.lastEnd());
+        }
+        const statement = this.parseStatement();
+        if (statement) {
+            return statement;
+        }
+        return { type: "block", body: [], start: token.start, end: token.end };
+    }
+
+    /** @returns undefined for empty statement */
+    private parseStatement(): ast.Statement | undefined {
+        const token = this.peek() as Token;
+        switch (token.keyword) {
+            case "begin":
+                return this.parseBlock();
+            case "variable":
+                return this.parseVariable("local");
+            case "if":
+                return this.parseIf();
+            case "while":
+                return this.parseWhile();
+            case "for":
+                return this.parseFor();
+            case "foreach":
+                return this.parseForeach();
+            case "switch":
+                return this.parseSwitch();
+            case "return":
+                return this.parseReturn();
+            case "break":
+            case "continue": {
+                this.advance();
+                const node: ast.JumpStatement = {
+                    type: token.keyword,
+                    start: token.start,
+                    end: token.end,
+                };
+                this.expectSemicolon();
+                return node;
+            }
+            case "call":
+                return this.parseCall();
+            case undefined:
+            case "not":
+            case "bwnot":
+                break;
+            default:
+                return this.recoverStatement(`Unexpected "${token.value}"`);
+        }
+        if (isOperator(token, ";")) {
+            this.advance();
+            return;
+        }
+        const expression = this.parseExpression(0, false);
+        this.expectSemicolon();
+        return {
+            type: "expression",
+            expression: expression,
+            start: token.start,
+            end: this.lastEnd(),
+        };
+    }
+
+    private parseIf(): ast.IfStatement {
+        const keyword = this.advance();
+        const condition = this.parseExpression();
+        this.expectKeyword("then");
+        const node: ast.IfStatement = {
+            type: "if",
+            condition: condition,
+            consequent: this.parseBody(),
+            start: keyword.start,
+            end: 0,
+        };
+        if (this.isKeyword("else")) {
+            this.advance();
+            node.alternate = this.parseBody();
+        }
+        node.end = this.lastEnd();
+        return node;
+    }
+
+    private parseWhile(): ast.WhileStatement {
+        const keyword = this.advance();
+        const condition = this.parseExpression();
+        this.expectKeyword("do");
+        const body = this.parseBody();
+        return {
+            type: "while",
+            condition: condition,
+            body: body,
+            start: keyword.start,
+            end: this.lastEnd(),
+        };
+    }
+
+    /** Initializer or update of `for` */
+    private parseSimpleStatement(): ast.Statement {
+        if (this.isKeyword("variable")) {
+            return this.parseVariable("local", undefined, true);
+        }
+        const start = (this.peek() as Token).start;
+        const expression = this.parseExpression();
+        return { type: "expression", expression: expression, start: start, end: this.lastEnd() };
+    }
+
+    /** `for (i := 0; i < 10; i++)`, parentheses are optional */
+    private parseFor(): ast.ForStatement {
+        const keyword = this.advance();
+        const parenthesized = this.isOperator("(");
+        if (parenthesized) {
+            this.advance();
+        }
+        const node: ast.ForStatement = {
+            type: "for",
+            body: this.errorNode(keyword.end),
+            start: keyword.start,
+            end: 0,
+        };
+        if (!this.isOperator(";")) {
+            node.init = this.parseSimpleStatement();
+        }
+        this.expectOperator(";");
+        if (!this.isOperator(";")) {
+            node.condition = this.parseExpression();
+        }
+        this.expectOperator(";");
+        const headerEnd = parenthesized ? this.isOperator(")") : this.isKeyword("begin");
+        if (!headerEnd && !this.eof()) {
+            node.update = this.parseSimpleStatement();
+        }
+        if (parenthesized) {
+            this.expectOperator(")");
+        }
+        if (this.isKeyword("do")) {
+            this.advance();
+        }
+        node.body = this.parseBody();
+        node.end = this.lastEnd();
+        return node;
+    }
+
+    /** `foreach (item in list)`, `foreach (key: value in map while key < 10)` */
+    private parseForeach(): ast.ForeachStatement | ast.ErrorNode {
+        const keyword = this.advance();
+        const parenthesized = this.isOperator("(");
+        if (parenthesized) {
+            this.advance();
+        }
+        const declared = this.isKeyword("variable");
+        if (declared) {
+            this.advance();
+        }
+        if (!this.isIdentifier()) {
+            this.error("Expecting variable name", this.peek());
+            return this.errorNode(keyword.start);
+        }
+        let key: ast.Identifier | undefined;
+        let value = this.identifier();
+        if (this.isOperator(":")) {
+            this.advance();
+            if (!this.isIdentifier()) {
+                this.error("Expecting variable name", this.peek());
+                return this.errorNode(keyword.start);
+            }
+            key = value;
+            value = this.identifier();
+        }
+        this.expectKeyword("in");
+        const node: ast.ForeachStatement = {
+            type: "foreach",
+            declared: declared,
+            key: key,
+            value: value,
+            collection: this.parseExpression(),
+            body: this.errorNode(keyword.end),
+            start: keyword.start,
+            end: 0,
+        };
+        if (this.isKeyword("while")) {
+            this.advance();
+            node.condition = this.parseExpression();
+        }
+        if (parenthesized) {
+            this.expectOperator(")");
+        }
+        if (this.isKeyword("do")) {
+            this.advance();
+        }
+        node.body = this.parseBody();
+        node.end = this.lastEnd();
+        return node;
+    }
+
+    private parseSwitch(): ast.SwitchStatement {
+        const keyword = this.advance();
+        const node: ast.SwitchStatement = {
+            type: "switch",
+            discriminant: this.parseExpression(),
+            cases: [],
+            start: keyword.start,
+            end: 0,
+        };
+        if (!this.expectKeyword("begin")) {
+            node.end = this.lastEnd();
+            return node;
+        }
+        const caseEnd = () =>
+            this.isKeyword("case") || this.isKeyword("default") || this.isKeyword("end");
+        while (!this.eof() && !this.isKeyword("end") && !this.isKeyword("procedure")) {
+            const token = this.peek() as Token;
+            if (!isKeyword(token, "case") && !isKeyword(token, "default")) {
+                this.recoverStatement('Expecting "case"');
+                continue;
+            }
+            this.advance();
+            const switchCase: ast.SwitchCase = { body: [], start: token.start, end: 0 };
+            if (isKeyword(token, "case")) {
+                switchCase.test = this.parseExpression();
+            }
+            this.expectOperator(":");
+            switchCase.body = this.parseStatements(caseEnd);
+            switchCase.end = this.lastEnd();
+            node.cases.push(switchCase);
+        }
+        this.expectKeyword("end");
+        node.end = this.lastEnd();
+        return node;
+    }
+
+    private parseReturn(): ast.ReturnStatement {
+        const keyword = this.advance();
+        const node: ast.ReturnStatement = { type: "return", start: keyword.start, end: 0 };
+        if (!this.eof() && !this.isOperator(";") && !this.isKeyword("end")) {
+            node.argument = this.parseExpression();
+        }
+        this.expectSemicolon();
+        node.end = this.lastEnd();
+        return node;
+    }
+
+    /** `call foo;`, `call foo(1, 2) in 10;` */
+    private parseCall(): ast.CallStatement {
+        const keyword = this.advance();
+        let callee: ast.Expression;
+        let args: ast.Expression[] = [];
+        if (this.isIdentifier()) {
+            callee = this.identifier();
+            if (this.isOperator("(")) {
+                args = this.parseArguments();
+            }
+        } else {
+            callee = this.parsePrefix(true);
+        }
+        const node: ast.CallStatement = {
+            type: "call",
+            callee: callee,
+            args: args,
+            start: keyword.start,
+            end: 0,
+        };
+        if (this.isKeyword("in")) {
+            this.advance();
+            node.delay = this.parseExpression();
+        }
+        this.expectSemicolon();
+        node.end = this.lastEnd();
+        return node;
+    }
+
+    // Expressions
+
+    /**
+     * Precedence climbing.
+     * @param conditional allow sfall `a if b else c`. Disabled at statement start,
+     * so that a missing `;` before `if` doesn't swallow the next statement.
+     */
+    private parseExpression(minPrecedence = 0, conditional = true): ast.Expression {
+        let left = this.parsePrefix(conditional);
+        for (;;) {
+            const token = this.peek();
+            const operator = operatorOf(token);
+            if (token === undefined || operator === undefined) {
+                break;
+            }
+            if (assignmentOperators.has(operator)) {
+                if (minPrecedence > ASSIGNMENT_PRECEDENCE) {
+                    break;
+                }
+                this.advance();
+                // right associative
+                const value = this.parseExpression(ASSIGNMENT_PRECEDENCE);
+                left = {
+                    type: "assignment",
+                    operator: operator,
+                    target: left,
+                    value: value,
+                    start: left.start,
+                    end: this.lastEnd(),
+                };
+                continue;
+            }
+            if (operator == "if" && conditional) {
+                if (minPrecedence > CONDITIONAL_PRECEDENCE) {
+                    break;
+                }
+                this.advance();
+                const condition = this.parseExpression(CONDITIONAL_PRECEDENCE + 1);
+                this.expectKeyword("else");
+                const alternate = this.parseExpression(CONDITIONAL_PRECEDENCE);
+                left = {
+                    type: "conditional",
+                    condition: condition,
+                    consequent: left,
+                    alternate: alternate,
+                    start: left.start,
+                    end: this.lastEnd(),
+                };
+                continue;
+            }
+            const precedence = binaryPrecedence.get(operator);
+            if (precedence === undefined || precedence < minPrecedence) {
+                break;
+            }
+            this.advance();
+            // `^` is right associative
+            const right = this.parseExpression(operator == "^" ? precedence : precedence + 1);
+            left = {
+                type: "binary",
+                operator: operator,
+                left: left,
+                right: right,
+                start: left.start,
+                end: this.lastEnd(),
+            };
+        }
+        return left;
+    }
+
+    private parsePrefix(conditional: boolean): ast.Expression {
+        const token = this.peek();
+        const operator = operatorOf(token);
+        if (token && operator == "not") {
+            this.advance();
+            const argument = this.parseExpression(NOT_PRECEDENCE, conditional);
+            return this.unary(operator, argument, token.start, false);
+        }
+        if (token && operator !== undefined && prefixOperators.has(operator)) {
+            this.advance();
+            const argument = this.parseExpression(UNARY_PRECEDENCE, conditional);
+            return this.unary(operator, argument, token.start, false);
+        }
+        return this.parsePostfix(this.parsePrimary());
+    }
+
+    private unary(
+        operator: string,
+        argument: ast.Expression,
+        start: number,
+        postfix: boolean
+    ): ast.UnaryExpression {
+        return {
+            type: "unary",
+            operator: operator,
+            argument: argument,
+            postfix: postfix,
+            start: start,
+            end: this.lastEnd(),
+        };
+    }
+
+    private parsePostfix(expression: ast.Expression) {
+        for (;;) {
+            if (this.isOperator("(") && expression.type == "identifier") {
+                const args = this.parseArguments();
+                expression = {
+                    type: "call_expression",
+                    callee: expression,
+                    args: args,
+                    start: expression.start,
+                    end: this.lastEnd(),
+                };
+            } else if (this.isOperator("[")) {
+                this.advance();
+                const index = this.parseExpression();
+                this.expectOperator("]");
+                expression = {
+                    type: "index",
+                    object: expression,
+                    index: index,
+                    start: expression.start,
+                    end: this.lastEnd(),
+                };
+            } else if (this.isOperator(".") && this.peek(1)?.kind == "identifier") {
+                this.advance();
+                expression = {
+                    type: "member",
+                    object: expression,
+                    property: this.identifier(),
+                    start: expression.start,
+                    end: this.lastEnd(),
+                };
+            } else if (this.isOperator("++") || this.isOperator("--")) {
+                const operator = this.advance().value;
+                expression = this.unary(operator, expression, expression.start, true);
+            } else {
+                return expression;
+            }
+        }
+    }
+
+    /** `(a, b)` */
+    private parseArguments() {
+        this.advance();
+        const args: ast.Expression[] = [];
+        while (!this.eof() && !this.isOperator(")")) {
+            const token = this.peek() as Token;
+            if (isOperator(token, ";") || isStatementKeyword(token)) {
+                break;
+            }
+            args.push(this.parseExpression());
+            if (!this.isOperator(",")) {
+                break;
+            }
+            this.advance();
+        }
+        this.expectOperator(")");
+        return args;
+    }
+
+    private parsePrimary(): ast.Expression {
+        const token = this.peek();
+        if (!token) {
+            this.error("Expecting expression");
+            return this.errorNode(this.lastEnd());
+        }
+        if (token.kind == "identifier") {
+            return this.identifier();
+        }
+        if (token.kind == "number") {
+            this.advance();
+            return { type: "number", value: token.value, start: token.start, end: token.end };
+        }
+        if (token.kind == "string") {
+            this.advance();
+            const closed = token.value.length > 1 && token.value.endsWith('"');
+            return {
+                type: "string",
+                value: token.value.slice(1, closed ? -1 : undefined),
+                start: token.start,
+                end: token.end,
+            };
+        }
+        if (isOperator(token, "@")) {
+            this.advance();
+            if (!this.isIdentifier()) {
+                this.error("Expecting procedure name", this.peek());
+                return this.errorNode(token.start);
+            }
+            return {
+                type: "procedure_ref",
+                name: this.identifier(),
+                start: token.start,
+                end: this.lastEnd(),
+            };
+        }
+        if (isOperator(token, "(")) {
+            this.advance();
+            const expression = this.parseExpression();
+            this.expectOperator(")");
+            return expression;
+        }
+        if (isOperator(token, "[")) {
+            return this.parseArray();
+        }
+        if (isOperator(token, "{")) {
+            return this.parseMap();
+        }
+        this.error("Expecting expression", token);
+        if (isExpressionBoundary(token)) {
+            return this.errorNode(this.lastEnd());
+        }
+        this.advance();
+        return this.errorNode(token.start);
+    }
+
+    /** sfall `[1, 2, 3]` */
+    private parseArray(): ast.ArrayLiteral {
+        const open = this.advance();
+        const elements: ast.Expression[] = [];
+        while (!this.eof() && !this.isOperator("]")) {
+            if (isStatementKeyword(this.peek() as Token) || this.isOperator(";")) {
+                break;
+            }
+            elements.push(this.parseExpression());
+            if (!this.isOperator(",")) {
+                break;
+            }
+            this.advance();
+        }
+        this.expectOperator("]");
+        return { type: "array", elements: elements, start: open.start, end: this.lastEnd() };
+    }
+
+    /** sfall `{"a": 1, 2: "b"}` */
+    private parseMap(): ast.MapLiteral {
+        const open = this.advance();
+        const entries: ast.MapLiteral["entries"] = [];
+        while (!this.eof() && !this.isOperator("}")) {
+            if (isStatementKeyword(this.peek() as Token) || this.isOperator(";")) {
+                break;
+            }
+            const key = this.parseExpression();
+            this.expectOperator(":");
+            entries.push({ key: key, value: this.parseExpression() });
+            if (!this.isOperator(",")) {
+                break;
+            }
+            this.advance();
+        }
+        this.expectOperator("}");
+        return { type: "map", entries: entries, start: open.start, end: this.lastEnd() };
+    }
+}
+
+const directiveRegex = /^#[ \t]*(\w*)/;
+const includeRegex = /^#[ \t]*include[ \t]*["<]([^">\n]*)/;
+
+function parseDefine(
+    text: string,
+    token: Token,
+    nameStart: number,
+    docs: Map<Token, Token>
+): ast.Define | undefined {
+    const tokens = tokenizeDirective(text, token, nameStart).filter(
+        (x) => x.kind != "comment" && !isOperator(x, "\\")
+    );
+    const nameToken = tokens[0];
+    if (!nameToken || nameToken.kind != "identifier") {
+        return;
+    }
+    const define: ast.Define = {
+        type: "define",
+        name: {
+            type: "identifier",
+            name: nameToken.value,
+            token: nameToken,
+            start: nameToken.start,
+            end: nameToken.end,
+        },
+        body: "",
+        bodyTokens: [],
+        multiline: token.value.includes("\n"),
+        doc: docs.get(token),
+        token: token,
+        start: token.start,
+        end: token.end,
+    };
+
+    let bodyIndex = 1;
+    let bodyStart = nameToken.end;
+    // function-like only if `(` immediately follows the name
+    if (isOperator(tokens[1], "(") && tokens[1].start == nameToken.end) {
+        const params: ast.Identifier[] = [];
+        let i = 2;
+        for (; i < tokens.length && !isOperator(tokens[i], ")"); i++) {
+            const param = tokens[i];
+            if (param.kind == "identifier") {
+                params.push({
+                    type: "identifier",
+                    name: param.value,
+                    token: param,
+                    start: param.start,
+                    end: param.end,
+                });
+            }
+        }
+        define.params = params;
+        const close = tokens[i];
+        define.paramsText = text.slice(tokens[1].end, close ? close.start : token.end);
+        bodyIndex = i + 1;
+        bodyStart = close ? close.end : token.end;
+    }
+    define.body = text.slice(bodyStart, token.end).trim();
+    define.bodyTokens = tokens.slice(bodyIndex);
+    return define;
+}
+
+function parsePreprocessor(text: string, tokens: Token[], docs: Map<Token, Token>) {
+    const result: ast.Preprocessor[] = [];
+    for (const token of tokens) {
+        if (token.kind != "preprocessor") {
+            continue;
+        }
+        const match = directiveRegex.exec(token.value) as RegExpExecArray;
+        const name = match[1].toLowerCase();
+        if (name == "define") {
+            const define = parseDefine(text, token, token.start + match[0].length, docs);
+            if (define) {
+                result.push(define);
+                continue;
+            }
+        }
+        if (name == "include") {
+            const include = includeRegex.exec(token.value);
+            if (include) {
+                result.push({
+                    type: "include",
+                    path: include[1],
+                    token: token,
+                    start: token.start,
+                    end: token.end,
+                });
+                continue;
+            }
+        }
+        result.push({
+            type: "directive",
+            name: name,
+            token: token,
+            start: token.start,
+            end: token.end,
+        });
+    }
+    return result;
+}
+
+/** Parse a script or header. Never throws, problems are reported in `errors`. */
+export function parse(text: string): ast.Script {
+    const tokens = tokenize(text);
+    const docs = docComments(tokens);
+    const parser = new Parser(text, tokens, docs);
+    const body = parser.parseScript();
+    return {
+        body: body,
+        preprocessor: parsePreprocessor(text, tokens, docs),
+        tokens: tokens,
+        errors: parser.errors,
+    };
+}
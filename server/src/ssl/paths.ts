@@ -0,0 +1,77 @@
+/**
+ * Fallout SSL include paths
+ *
+ * `#include "..\headers\define.h"` is looked up relative to the including file,
+ * then in the headers directories, same as the compiler does with `-I`.
+ */
+
+import * as path from "path";
+import { Position } from "vscode-languageserver/node";
+import { uriToPath } from "../common";
+import { FilePath, normalize, PathPrefix, splitPrefix } from "../paths";
+import { Token, tokenize } from "./lexer";
+
+/** Path may be unterminated while it's being typed */
+const includeRegex = /^#\s*include\s+"([^"\n]*)/;
+
+/** Directories to look up includes in */
+function includeDirs(uri: string, headersDirectories: string[]) {
+    return [path.dirname(uriToPath(uri)), ...headersDirectories];
+}
+
+/** Include directives with the path and its offset in the directive */
+function includes(text: string) {
+    const result: { token: Token; value: string; offset: number }[] = [];
+    for (const token of tokenize(text)) {
+        if (token.kind != "preprocessor") {
+            continue;
+        }
+        const match = token.value.match(includeRegex);
+        if (match) {
+            const value = match[1];
+            result.push({ token: token, value: value, offset: match[0].length - value.length });
+        }
+    }
+    return result;
+}
+
+export function filePaths(uri: string, text: string, headersDirectories: string[]) {
+    const dirs = includeDirs(uri, headersDirectories);
+    return includes(text).map((x) => {
+        const start = x.token.character + x.offset;
+        const result: FilePath = {
+            value: x.value,
+            range: {
+                start: { line: x.token.line, character: start },
+                end: { line: x.token.line, character: start + x.value.length },
+            },
+            candidates: dirs.map((dir) => path.resolve(dir, normalize(x.value))),
+        };
+        return result;
+    });
+}
+
+/** Include path being typed at the position */
+export function pathPrefix(
+    uri: string,
+    text: string,
+    position: Position,
+    headersDirectories: string[]
+) {
+    for (const x of includes(text)) {
+        const start = x.token.character + x.offset;
+        if (x.token.line != position.line || position.character < start) {
+            continue;
+        }
+        if (position.character > start + x.value.length) {
+            continue;
+        }
+        const value = x.value.slice(0, position.character - start);
+        const prefix = splitPrefix(value, position);
+        const result: PathPrefix = {
+            dirs: includeDirs(uri, headersDirectories).map((dir) => path.resolve(dir, prefix.dir)),
+            range: prefix.range,
+        };
+        return result;
+    }
+}
@@ -0,0 +1,125 @@
+/**
+ * Fallout SSL semantic tokens
+ *
+ * Identifiers are resolved in order: procedure parameters and local variables,
+ * then symbols of the script itself, then header and built-in symbols.
+ */
+
+import * as jsdoc from "../jsdoc";
+import * as semantic from "../semantic";
+import * as ast from "./ast";
+import { Token } from "./lexer";
+import { parse } from "./parser";
+import { isConstant } from "./symbols";
+
+function isDeprecated(doc: Token | undefined) {
+    return doc !== undefined && jsdoc.parse(doc.value).deprecated !== undefined;
+}
+
+/** Procedures, script variables and macros defined in the script itself */
+function scriptSymbols(script: ast.Script) {
+    const symbols: semantic.SymbolMap = new Map();
+    for (const node of script.preprocessor) {
+        if (node.type == "define") {
+            const info: semantic.TokenInfo = isConstant(node)
+                ? { type: "variable", modifiers: ["readonly"] }
+                : { type: "macro", modifiers: [] };
+            if (isDeprecated(node.doc)) {
+                info.modifiers.push("deprecated");
+            }
+            symbols.set(node.name.name, info);
+        }
+    }
+    for (const node of script.body) {
+        if (node.type == "variable") {
+            for (const declarator of node.declarations) {
+                symbols.set(declarator.name.name, { type: "variable", modifiers: [] });
+            }
+        } else if (node.type == "procedure") {
+            // forward declaration may come without jsdoc, don't let it reset deprecation
+            const known = symbols.get(node.name.name);
+            const info: semantic.TokenInfo = known || { type: "function", modifiers: [] };
+            if (isDeprecated(node.doc) && !info.modifiers.includes("deprecated")) {
+                info.modifiers.push("deprecated");
+            }
+            symbols.set(node.name.name, info);
+        }
+    }
+    return symbols;
+}
+
+/** Parameters and local variables of a procedure or macro */
+function localSymbols(params: ast.Identifier[], locals: ast.Identifier[]) {
+    const symbols: semantic.SymbolMap = new Map();
+    for (const local of locals) {
+        symbols.set(local.name, { type: "variable", modifiers: [] });
+    }
+    for (const param of params) {
+        symbols.set(param.name, { type: "parameter", modifiers: [] });
+    }
+    return symbols;
+}
+
+/**
+ * @param external header and built-in symbols
+ */
+export function semanticTokens(text: string, external: semantic.SymbolMap) {
+    const script = parse(text);
+    const declarations = ast.declarationOffsets(script);
+    const properties = ast.propertyOffsets(script);
+    const own = scriptSymbols(script);
+    const result: semantic.SemanticToken[] = [];
+
+    const classify = (token: Token, local?: semantic.SymbolMap) => {
+        if (token.kind != "identifier" || properties.has(token.start)) {
+            return;
+        }
+        const info = local?.get(token.value) || own.get(token.value) || external.get(token.value);
+        if (!info) {
+            return;
+        }
+        const modifiers = [...info.modifiers];
+        if (declarations.has(token.start)) {
+            modifiers.push("declaration");
+        }
+        result.push({
+            line: token.line,
+            character: token.character,
+            length: token.value.length,
+            type: info.type,
+            modifiers: modifiers,
+        });
+    };
+
+    // procedures don't overlap, so tokens can be matched to them in a single pass
+    const procedures = script.body.filter((x): x is ast.Procedure => x.type == "procedure");
+    let index = 0;
+    let local: semantic.SymbolMap | undefined;
+    for (const token of script.tokens) {
+        while (index < procedures.length && procedures[index].end <= token.start) {
+            index++;
+            local = undefined;
+        }
+        const procedure = procedures[index];
+        if (procedure && procedure.start <= token.start) {
+            if (!local) {
+                const params = procedure.params.map((x) => x.name);
+                local = localSymbols(params, ast.localVariables(procedure));
+            }
+            classify(token, local);
+        } else {
+            classify(token);
+        }
+    }
+
+    for (const node of script.preprocessor) {
+        if (node.type == "define") {
+            classify(node.name.token);
+            const params = localSymbols(node.params || [], []);
+            for (const token of node.bodyTokens) {
+                classify(token, params);
+            }
+        }
+    }
+    return result;
+}
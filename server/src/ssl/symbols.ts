@@ -0,0 +1,118 @@
+/**
+ * Fallout SSL document symbols
+ *
+ * Outline of a script: procedures with their arguments and local variables,
+ * script variables, imported and exported variables, and macro definitions.
+ */
+
+import { DocumentSymbol, Range, SymbolKind } from "vscode-languageserver/node";
+import * as ast from "./ast";
+import { positionConverter, tokenRange } from "./lexer";
+import { parse } from "./parser";
+
+const constantRegex = /^[A-Z][A-Z0-9_]+$/;
+
+/** Object-like single line macros with uppercase names are considered constants */
+export function isConstant(define: ast.Define) {
+    return (
+        !define.params &&
+        !define.multiline &&
+        define.body != "" &&
+        constantRegex.test(define.name.name)
+    );
+}
+
+function makeSymbol(
+    name: string,
+    kind: SymbolKind,
+    range: Range,
+    selectionRange: Range,
+    detail?: string
+) {
+    const symbol: DocumentSymbol = {
+        name: name,
+        kind: kind,
+        range: range,
+        selectionRange: selectionRange,
+    };
+    if (detail) {
+        symbol.detail = detail;
+    }
+    return symbol;
+}
+
+function defineSymbol(define: ast.Define) {
+    const kind = isConstant(define) ? SymbolKind.Constant : SymbolKind.Field;
+    const detail = define.params ? `(${define.paramsText})` : undefined;
+    return makeSymbol(
+        define.name.name,
+        kind,
+        tokenRange(define.token),
+        tokenRange(define.name.token),
+        detail
+    );
+}
+
+function variableSymbol(name: ast.Identifier, detail?: string) {
+    const range = tokenRange(name.token);
+    return makeSymbol(name.name, SymbolKind.Variable, range, range, detail);
+}
+
+function variableSymbols(node: ast.VariableDeclaration) {
+    let detail: string | undefined;
+    if (node.scope == "import") {
+        detail = "imported";
+    } else if (node.scope == "export") {
+        detail = "exported";
+    }
+    return node.declarations.map((x) => variableSymbol(x.name, detail));
+}
+
+/** Procedure with arguments and local variables as children */
+function procedureSymbol(
+    procedure: ast.Procedure,
+    positionAt: ReturnType<typeof positionConverter>
+) {
+    const args = procedure.params.map((x) => variableSymbol(x.name, "argument"));
+    const locals = ast.localVariables(procedure).map((x) => variableSymbol(x));
+    const range = { start: positionAt(procedure.start), end: positionAt(procedure.end) };
+    const argNames = procedure.params.map((x) => x.name.name).join(", ");
+    const symbol = makeSymbol(
+        procedure.name.name,
+        SymbolKind.Function,
+        range,
+        tokenRange(procedure.name.token),
+        `(${argNames})`
+    );
+    symbol.children = [...args, ...locals];
+    return symbol;
+}
+
+/** Hierarchical outline of a script or header */
+export function documentSymbols(text: string) {
+    const script = parse(text);
+    const positionAt = positionConverter(text);
+    const symbols: DocumentSymbol[] = [];
+
+    for (const node of script.preprocessor) {
+        if (node.type == "define") {
+            symbols.push(defineSymbol(node));
+        }
+    }
+    for (const node of script.body) {
+        if (node.type == "variable") {
+            symbols.push(...variableSymbols(node));
+        } else if (node.type == "procedure" && node.body) {
+            // forward declarations are skipped
+            symbols.push(procedureSymbol(node, positionAt));
+        }
+    }
+
+    symbols.sort((a, b) => {
+        if (a.range.start.line != b.range.start.line) {
+            return a.range.start.line - b.range.start.line;
+        }
+        return a.range.start.character - b.range.start.character;
+    });
+    return symbols;
+}
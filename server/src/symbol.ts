@@ -0,0 +1,53 @@
+import { SymbolInformation } from "vscode-languageserver/node";
+
+/** Don't flood the client on short queries */
+const MAX_WORKSPACE_SYMBOLS = 500;
+
+export interface ScoredSymbol {
+    score: number;
+    symbol: SymbolInformation;
+}
+
+/**
+ * Case insensitive fuzzy match: all query characters must be found in name, in order.
+ * Consecutive characters and matches at the start of name or after `_` are rewarded.
+ * @returns score, higher is better, or undefined if there's no match
+ */
+export function fuzzyScore(query: string, name: string) {
+    if (query == "") {
+        return 0;
+    }
+    const lowQuery = query.toLowerCase();
+    const lowName = name.toLowerCase();
+    let score = 0;
+    let pos = 0;
+    let prev = -2;
+    for (const char of lowQuery) {
+        const found = lowName.indexOf(char, pos);
+        if (found == -1) {
+            return;
+        }
+        score += 1;
+        if (found == prev + 1) {
+            score += 2;
+        }
+        if (found == 0 || name[found - 1] == "_") {
+            score += 3;
+        }
+        prev = found;
+        pos = found + 1;
+    }
+    // prefer shorter names on equal match quality
+    return score - name.length / 100;
+}
+
+/** Best matches first, ties ordered alphabetically */
+export function bestMatches(symbols: ScoredSymbol[]) {
+    symbols.sort((a, b) => {
+        if (a.score != b.score) {
+            return b.score - a.score;
+        }
+        return a.symbol.name.localeCompare(b.symbol.name);
+    });
+    return symbols.slice(0, MAX_WORKSPACE_SYMBOLS).map((x) => x.symbol);
+}
@@ -0,0 +1,30 @@
+import * as assert from "assert";
+import { checkDeclarations } from "../ssl/declarations";
+
+/** Diagnostic messages for a script */
+function messages(text: string, uri = "file:///scripts/a.ssl") {
+    return checkDeclarations(uri, text, new Set(["external"])).map((x) => x.message);
+}
+
+suite("SSL declarations", () => {
+    test("parameter names may differ from the definition", () => {
+        const text = "procedure foo(variable x);\nprocedure foo(variable y) begin end";
+        assert.deepStrictEqual(messages(text), []);
+    });
+
+    test("reports a different number of parameters", () => {
+        const text = "procedure foo(variable x);\nprocedure foo(variable x, variable y) begin end";
+        assert.deepStrictEqual(messages(text), [
+            "Procedure foo has 2 parameters, but its declaration has 1.",
+        ]);
+    });
+
+    test("reports declarations which are never defined", () => {
+        const text = "procedure foo;\nprocedure external;";
+        assert.deepStrictEqual(messages(text), ["Procedure foo is declared, but never defined."]);
+    });
+
+    test("declarations in headers may be defined elsewhere", () => {
+        assert.deepStrictEqual(messages("procedure foo;", "file:///headers/a.h"), []);
+    });
+});
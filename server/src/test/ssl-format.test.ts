@@ -0,0 +1,108 @@
+import * as assert from "assert";
+import { BeginPlacement, format } from "../ssl/format";
+import { parse } from "../ssl/parser";
+
+const script = `#include "define.h"
+#define FOO(x)  (x + \\
+      1)
+
+/**
+   * Doc
+     * @arg {int} a
+ */
+procedure foo(variable a)
+begin
+variable i;
+	if (a) then
+	begin
+  i := 1;
+	end else if a == 2 then
+      i := 2;
+   else begin
+         i := 3;
+   end
+  switch a begin
+  case 1:
+  display_msg("x");
+  default: begin
+  i := 0;
+  end
+  end
+#ifdef DEBUG
+  debug_msg("y");
+#endif
+   // comment
+   while i > 0 do
+   i := i - 1;
+   foreach (x in list)
+   display_msg(x + call_it(1,
+   2));
+   /* block
+      comment */
+   for (i := 0; i < 3; i++) begin
+      if i then foo(1);
+   end
+end
+
+procedure bar begin end
+procedure baz;
+procedure qux
+begin
+   return 1;
+end
+`;
+
+const placements: BeginPlacement[] = ["sameLine", "newLine", "preserve"];
+
+/** Formatted text, the original one if nothing changed */
+function formatted(text: string, beginPlacement: BeginPlacement) {
+    const lines = format(text, { indent: "    ", beginPlacement: beginPlacement });
+    return lines ? lines.join("\n") : text;
+}
+
+/** Syntax tree without positions, which formatting changes */
+function shape(text: string) {
+    const positions = new Set(["start", "end", "token", "doc", "paramsText"]);
+    return JSON.stringify(parse(text).body, (key, value) =>
+        positions.has(key) ? undefined : value
+    );
+}
+
+suite("SSL formatter", () => {
+    for (const placement of placements) {
+        test(`is idempotent with begin placement ${placement}`, () => {
+            const once = formatted(script, placement);
+            assert.strictEqual(formatted(once, placement), once);
+        });
+
+        test(`keeps the syntax tree with begin placement ${placement}`, () => {
+            const once = formatted(script, placement);
+            assert.strictEqual(parse(once).errors.length, parse(script).errors.length);
+            assert.strictEqual(shape(once), shape(script));
+        });
+    }
+
+    test("moves begin to the header line", () => {
+        const text = "procedure foo\nbegin\n    return 1;\nend";
+        assert.deepStrictEqual(format(text, { indent: "    ", beginPlacement: "sameLine" }), [
+            "procedure foo begin",
+            "    return 1;",
+            "end",
+        ]);
+    });
+
+    test("moves begin to its own line", () => {
+        const text = "procedure foo begin\n    return 1;\nend";
+        assert.deepStrictEqual(format(text, { indent: "    ", beginPlacement: "newLine" }), [
+            "procedure foo",
+            "begin",
+            "    return 1;",
+            "end",
+        ]);
+    });
+
+    test("keeps begin in place with preserve", () => {
+        const text = "procedure foo begin\n    return 1;\nend\nprocedure bar\nbegin\nend";
+        assert.strictEqual(format(text, { indent: "    ", beginPlacement: "preserve" }), undefined);
+    });
+});
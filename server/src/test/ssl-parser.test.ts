@@ -0,0 +1,284 @@
+import * as assert from "assert";
+import * as ast from "../ssl/ast";
+import { parse } from "../ssl/parser";
+
+/** Syntax tree without positions */
+function shape(value: unknown) {
+    const positions = new Set(["start", "end", "token", "doc", "paramsText", "bodyTokens"]);
+    return JSON.parse(
+        JSON.stringify(value, (key, value) => (positions.has(key) ? undefined : value))
+    );
+}
+
+/** Procedures of a script */
+function procedures(script: ast.Script) {
+    return script.body.filter((x): x is ast.Procedure => x.type == "procedure");
+}
+
+/** Statements of the first procedure */
+function statements(text: string) {
+    const script = parse(text);
+    assert.deepStrictEqual(script.errors, []);
+    return procedures(script)[0].body?.body ?? [];
+}
+
+/** Value assigned in `procedure foo begin x := <expression>; end` */
+function expression(text: string) {
+    const [statement] = statements(`procedure foo begin x := ${text}; end`);
+    assert.strictEqual(statement.type, "expression");
+    const assignment = (statement as ast.ExpressionStatement).expression;
+    assert.strictEqual(assignment.type, "assignment");
+    return shape((assignment as ast.AssignmentExpression).value);
+}
+
+const a = { type: "identifier", name: "a" };
+const b = { type: "identifier", name: "b" };
+const c = { type: "identifier", name: "c" };
+const one = { type: "number", value: "1" };
+const two = { type: "number", value: "2" };
+const three = { type: "number", value: "3" };
+
+suite("SSL parser", () => {
+    suite("expressions", () => {
+        test("multiplication binds tighter than addition", () => {
+            assert.deepStrictEqual(expression("1 + 2 * 3"), {
+                type: "binary",
+                operator: "+",
+                left: one,
+                right: { type: "binary", operator: "*", left: two, right: three },
+            });
+        });
+
+        test("parentheses override precedence", () => {
+            assert.deepStrictEqual(expression("(1 + 2) * 3"), {
+                type: "binary",
+                operator: "*",
+                left: { type: "binary", operator: "+", left: one, right: two },
+                right: three,
+            });
+        });
+
+        test("binary operators are left associative", () => {
+            assert.deepStrictEqual(expression("1 - 2 - 3"), {
+                type: "binary",
+                operator: "-",
+                left: { type: "binary", operator: "-", left: one, right: two },
+                right: three,
+            });
+        });
+
+        test("comparison binds tighter than and, and tighter than or", () => {
+            assert.deepStrictEqual(expression("a or b and c != 1"), {
+                type: "binary",
+                operator: "or",
+                left: a,
+                right: {
+                    type: "binary",
+                    operator: "and",
+                    left: b,
+                    right: { type: "binary", operator: "!=", left: c, right: one },
+                },
+            });
+        });
+
+        test("not binds looser than comparison", () => {
+            assert.deepStrictEqual(expression("not a == 1"), {
+                type: "unary",
+                operator: "not",
+                argument: { type: "binary", operator: "==", left: a, right: one },
+                postfix: false,
+            });
+        });
+
+        test("keyword operators are case insensitive", () => {
+            assert.deepStrictEqual(expression("a AND b"), {
+                type: "binary",
+                operator: "and",
+                left: a,
+                right: b,
+            });
+        });
+
+        test("sfall conditional expression", () => {
+            assert.deepStrictEqual(expression("1 if a else 2"), {
+                type: "conditional",
+                condition: a,
+                consequent: one,
+                alternate: two,
+            });
+        });
+
+        test("calls, procedure references, arrays and maps", () => {
+            assert.deepStrictEqual(expression("f(a, @b)"), {
+                type: "call_expression",
+                callee: { type: "identifier", name: "f" },
+                args: [a, { type: "procedure_ref", name: b }],
+            });
+            assert.deepStrictEqual(expression("[1, 2]"), { type: "array", elements: [one, two] });
+            assert.deepStrictEqual(expression('{a: 1, "b": 2}'), {
+                type: "map",
+                entries: [
+                    { key: a, value: one },
+                    { key: { type: "string", value: "b" }, value: two },
+                ],
+            });
+        });
+
+        test("index and member access", () => {
+            assert.deepStrictEqual(expression("a[1].b"), {
+                type: "member",
+                object: { type: "index", object: a, index: one },
+                property: b,
+            });
+        });
+    });
+
+    suite("statements", () => {
+        test("foreach over a map with a condition", () => {
+            const [statement] = statements(
+                "procedure foo begin foreach (a: b in c while b > 0) display_msg(a); end"
+            );
+            const foreach = shape(statement);
+            assert.strictEqual(foreach.type, "foreach");
+            assert.strictEqual(foreach.declared, false);
+            assert.deepStrictEqual(foreach.key, a);
+            assert.deepStrictEqual(foreach.value, b);
+            assert.deepStrictEqual(foreach.collection, c);
+            assert.strictEqual(foreach.condition.operator, ">");
+            assert.strictEqual(foreach.body.expression.type, "call_expression");
+        });
+
+        test("foreach with a declared variable", () => {
+            const [statement] = statements(
+                "procedure foo begin foreach (variable a in c) begin end end"
+            );
+            const foreach = shape(statement);
+            assert.strictEqual(foreach.declared, true);
+            assert.strictEqual(foreach.key, undefined);
+            assert.deepStrictEqual(foreach.value, a);
+            assert.deepStrictEqual(foreach.body, { type: "block", body: [] });
+        });
+
+        test("switch with fallthrough and default", () => {
+            const [statement] = statements(
+                "procedure foo begin switch a begin case 1: case 2: b := 1; default: c := 1; end end"
+            );
+            const cases = (statement as ast.SwitchStatement).cases;
+            assert.deepStrictEqual(shape(cases[0]), { test: one, body: [] });
+            assert.deepStrictEqual(shape(cases[1].test), two);
+            assert.strictEqual(cases[1].body.length, 1);
+            assert.strictEqual(cases[2].test, undefined);
+            assert.strictEqual(cases[2].body.length, 1);
+        });
+
+        test("else binds to the nearest if", () => {
+            const [statement] = statements(
+                "procedure foo begin if a then if b then c := 1; else c := 2; end"
+            );
+            const outer = statement as ast.IfStatement;
+            assert.strictEqual(outer.alternate, undefined);
+            assert.notStrictEqual((outer.consequent as ast.IfStatement).alternate, undefined);
+        });
+    });
+
+    suite("procedures", () => {
+        test("forward declarations have no body", () => {
+            const script = parse(
+                "procedure foo;\nprocedure bar(variable a, variable b := 2);\nprocedure foo begin end"
+            );
+            assert.deepStrictEqual(script.errors, []);
+            const [foo, bar, definition] = procedures(script);
+            assert.strictEqual(foo.body, undefined);
+            assert.strictEqual(bar.body, undefined);
+            assert.deepStrictEqual(shape(bar.params), [{ name: a }, { name: b, default: two }]);
+            assert.strictEqual(definition.name.name, "foo");
+            assert.notStrictEqual(definition.body, undefined);
+        });
+
+        test("begin on the next line and doc comments", () => {
+            const script = parse("/**\n * Doc\n */\nprocedure foo\nbegin\nend");
+            const [foo] = procedures(script);
+            assert.deepStrictEqual(script.errors, []);
+            assert.notStrictEqual(foo.body, undefined);
+            assert.strictEqual(foo.doc?.value, "/**\n * Doc\n */");
+        });
+
+        test("commented out code is ignored", () => {
+            const script = parse(
+                "// procedure foo;\n/* procedure bar begin end */\nprocedure baz;"
+            );
+            assert.deepStrictEqual(
+                procedures(script).map((x) => x.name.name),
+                ["baz"]
+            );
+        });
+
+        test("imports and exports", () => {
+            const script = parse("import variable a;\nexport variable b := 1;");
+            assert.deepStrictEqual(
+                script.body.map((x) => x.type == "variable" && x.scope),
+                ["import", "export"]
+            );
+        });
+    });
+
+    suite("preprocessor", () => {
+        test("both #if branches are parsed", () => {
+            const body = statements(
+                "procedure foo begin\n#if X\n    a := 1;\n#else\n    a := 2;\n#endif\nend"
+            );
+            assert.strictEqual(body.length, 2);
+        });
+
+        test("directives are collected", () => {
+            const script = parse(
+                '#include "a.h"\n#define FOO(x, y) (x + \\\n    y)\n#ifdef BAR\n#else\n#endif\n'
+            );
+            const [include, define, ...directives] = script.preprocessor;
+            assert.deepStrictEqual(shape(include), { type: "include", path: "a.h" });
+            assert.strictEqual(define.type, "define");
+            if (define.type == "define") {
+                assert.deepStrictEqual(
+                    define.params?.map((x) => x.name),
+                    ["x", "y"]
+                );
+                assert.strictEqual(define.multiline, true);
+            }
+            assert.deepStrictEqual(
+                directives.map((x) => x.type == "directive" && x.name),
+                ["ifdef", "else", "endif"]
+            );
+        });
+    });
+
+    suite("error recovery", () => {
+        test("a broken expression doesn't lose the next statement", () => {
+            const script = parse("procedure foo begin x := ; y := 2; end");
+            assert.deepStrictEqual(
+                script.errors.map((x) => x.message),
+                ["Expecting expression"]
+            );
+            const body = procedures(script)[0].body?.body ?? [];
+            assert.strictEqual(body.length, 2);
+            assert.strictEqual(shape(body[1]).expression.target.name, "y");
+        });
+
+        test("an unterminated procedure doesn't swallow the next one", () => {
+            const script = parse("procedure foo begin if a then\nprocedure bar begin end");
+            assert.notStrictEqual(script.errors.length, 0);
+            assert.deepStrictEqual(
+                procedures(script).map((x) => x.name.name),
+                ["foo", "bar"]
+            );
+        });
+
+        test("garbage at top level is skipped", () => {
+            const script = parse("foo bar;\nprocedure baz begin end");
+            assert.notStrictEqual(script.errors.length, 0);
+            assert.deepStrictEqual(
+                procedures(script).map((x) => x.name.name),
+                ["baz"]
+            );
+        });
+    });
+});
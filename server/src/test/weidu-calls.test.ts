@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import { callAt, findCalls } from "../weidu/calls";
+import { codeTokens, tokenize } from "../weidu/lexer";
+
+/** `section:name` of call arguments */
+function args(text: string) {
+    return findCalls(codeTokens(tokenize(text))).map((call) =>
+        call.args.map((x) => `${x.section}:${x.name.value}`)
+    );
+}
+
+/** Call at the end of text */
+function callAtEnd(text: string) {
+    const lines = text.split("\n");
+    const position = { line: lines.length - 1, character: lines[lines.length - 1].length };
+    return callAt(text, position);
+}
+
+suite("TP2 call arguments", () => {
+    test("reads values as whole expressions", () => {
+        const text = [
+            "LAF foo",
+            "INT_VAR a = 1 + 2 b c = RESOLVE_STR_REF (~x~) d = NOT FILE_EXISTS ~y~",
+            "STR_VAR s = EVAL ~%MOD_FOLDER%/x~ t = ~a~ ^ ~b~",
+            "RET r",
+            "END",
+        ].join("\n");
+        assert.deepStrictEqual(args(text), [
+            ["INT_VAR:a", "INT_VAR:b", "INT_VAR:c", "INT_VAR:d", "STR_VAR:s", "STR_VAR:t", "RET:r"],
+        ]);
+    });
+
+    test("reads function-like values", () => {
+        const text = "LPF foo INT_VAR a = (x > 1) b = IS_AN_INT y c = STRING_LENGTH ~z~ END";
+        assert.deepStrictEqual(args(text), [["INT_VAR:a", "INT_VAR:b", "INT_VAR:c"]]);
+    });
+
+    test("reads comparisons in values", () => {
+        const text = "LAF f INT_VAR a = x >= 1 b = y != 2 c = z<=3 END";
+        assert.deepStrictEqual(args(text), [["INT_VAR:a", "INT_VAR:b", "INT_VAR:c"]]);
+    });
+
+    test("finds every call, macros without arguments", () => {
+        const text = "LAM mac\nLAF first INT_VAR a = 1 END\nLPF second STR_VAR b = ~~ END";
+        assert.deepStrictEqual(args(text), [[], ["INT_VAR:a"], ["STR_VAR:b"]]);
+    });
+
+    test("knows the parameter being written", () => {
+        const call = callAtEnd("LAF foo INT_VAR a = 1 b");
+        assert.strictEqual(call?.section, "INT_VAR");
+        assert.strictEqual(call?.param, "b");
+        assert.strictEqual(call?.value, false);
+        assert.deepStrictEqual([...(call?.passed.get("INT_VAR") || [])], ["a"]);
+    });
+
+    test("knows the value being written", () => {
+        for (const text of [
+            "LAF foo INT_VAR a = ",
+            "LAF foo INT_VAR a = 1",
+            "LAF foo INT_VAR a = 1 + ",
+            "LAF foo INT_VAR a = x >= ",
+            "LAF foo INT_VAR a = x != ",
+        ]) {
+            const call = callAtEnd(text);
+            assert.strictEqual(call?.param, "a", text);
+            assert.strictEqual(call?.value, true, text);
+        }
+    });
+
+    test("moves to the next parameter after a complete value", () => {
+        const call = callAtEnd("LAF foo INT_VAR a = 1 STR_VAR s = EVAL ~x~ ");
+        assert.strictEqual(call?.section, "STR_VAR");
+        assert.strictEqual(call?.param, "");
+        assert.deepStrictEqual([...(call?.passed.get("INT_VAR") || [])], ["a"]);
+        assert.deepStrictEqual([...(call?.passed.get("STR_VAR") || [])], ["s"]);
+    });
+
+    test("is not in a call after END", () => {
+        assert.strictEqual(callAtEnd("LAF foo INT_VAR a = 1 END\nOUTER_SET x = "), undefined);
+    });
+});
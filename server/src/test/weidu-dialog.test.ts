@@ -0,0 +1,93 @@
+import * as assert from "assert";
+import { parse, StateRef } from "../weidu/dialog";
+import { displayText } from "../weidu/symbols";
+
+function ref(x?: StateRef) {
+    return x ? `${x.keyword.value} ${x.dialog}:${x.label ? displayText(x.label) : ""}` : undefined;
+}
+
+suite("D parser", () => {
+    test("parses chains with several speakers", () => {
+        const text = [
+            "CHAIN IF ~True()~ THEN MYNPC ch1",
+            "~Chain one~",
+            "== IMOEN2J ~Imoen says~",
+            "= ~more~",
+            "END IMOEN2J imo1",
+        ].join("\n");
+        const dialog = parse(text);
+        assert.strictEqual(dialog.states.length, 1);
+        const chain = dialog.states[0];
+        assert.strictEqual(chain.dialog, "mynpc");
+        assert.strictEqual(chain.start.value, "CHAIN");
+        assert.strictEqual(displayText(chain.label!), "ch1");
+        assert.strictEqual(displayText(chain.trigger!), "True()");
+        assert.deepStrictEqual(
+            chain.say.map((x) => `${x.dialog}: ${displayText(x.text)}`),
+            ["mynpc: Chain one", "imoen2j: Imoen says", "imoen2j: more"]
+        );
+        assert.deepStrictEqual(
+            chain.transitions.map((x) => ref(x.next)),
+            ["END imoen2j:imo1"]
+        );
+    });
+
+    test("parses chains ending with EXIT and transitions", () => {
+        const dialog = parse("CHAIN a x ~one~ EXIT\nCHAIN b y ~two~ END IF ~~ THEN GOTO z END");
+        assert.deepStrictEqual(
+            dialog.states.map((x) => x.transitions.map((t) => ref(t.next))),
+            [[undefined], ["GOTO b:z"]]
+        );
+    });
+
+    test("parses EXTEND_TOP and EXTEND_BOTTOM", () => {
+        const text = [
+            "EXTEND_BOTTOM MYNPC bye #1",
+            "  IF ~~ THEN EXTERN MYOTHER other1",
+            "END",
+            "EXTEND_TOP ~MYNPC.DLG~ s1 s2",
+            "  + ~~ + ~Reply~ + s3",
+            "END",
+        ].join("\n");
+        const dialog = parse(text);
+        assert.strictEqual(dialog.states.length, 0);
+        assert.deepStrictEqual(
+            dialog.extensions.map((x) => x.states.map(ref)),
+            [["EXTEND_BOTTOM mynpc:bye"], ["EXTEND_TOP mynpc:s1", "EXTEND_TOP mynpc:s2"]]
+        );
+        assert.deepStrictEqual(
+            dialog.extensions.map((x) => x.transitions.map((t) => ref(t.next))),
+            [["EXTERN myother:other1"], ["+ mynpc:s3"]]
+        );
+        assert.strictEqual(displayText(dialog.extensions[1].transitions[0].reply!), "Reply");
+    });
+
+    test("parses COPY_TRANS as a transition to the copied state", () => {
+        const text = [
+            "APPEND IMOEN2J",
+            "IF ~~ imo1 SAY ~Hi~ COPY_TRANS IMOEN2J 5 END",
+            "IF ~~ imo2 SAY ~Bye~ COPY_TRANS_LATE ~PLAYER1~ 33 IF ~~ THEN EXIT END",
+            "END",
+        ].join("\n");
+        const dialog = parse(text);
+        assert.strictEqual(dialog.sections[0].dialog, "imoen2j");
+        assert.deepStrictEqual(
+            dialog.states.map((x) => x.transitions.map((t) => ref(t.next))),
+            [["COPY_TRANS imoen2j:5"], ["COPY_TRANS_LATE player1:33", undefined]]
+        );
+    });
+
+    test("collects state references", () => {
+        const text = [
+            "BEGIN ~MYNPC~",
+            "IF ~~ THEN BEGIN hello",
+            "  SAY ~Hi~",
+            "  IF ~~ THEN REPLY ~Bye~ GOTO bye",
+            "  ++ ~Go away~ EXTERN ~IMOEN2J~ imo1",
+            "END",
+            "IF ~~ bye SAY ~Bye~ IF ~~ THEN EXIT END",
+        ].join("\n");
+        const dialog = parse(text);
+        assert.deepStrictEqual(dialog.refs.map(ref), ["GOTO mynpc:bye", "EXTERN imoen2j:imo1"]);
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from "assert";
+import { DiagnosticSeverity } from "vscode-languageserver/node";
+import { TraEntries } from "../translation";
+import { DialogFile, parse } from "../weidu/dialog";
+import { check } from "../weidu/dlint";
+
+const uri = "file:///mod/newdlg.d";
+
+/** `line: message` of diagnostics of the given severity */
+function messages(
+    text: string,
+    severity: DiagnosticSeverity,
+    others: DialogFile[] = [],
+    tra?: TraEntries
+) {
+    return check(uri, text, () => others, tra)
+        .filter((x) => x.severity == severity)
+        .map((x) => `${x.range.start.line}: ${x.message}`);
+}
+
+function errors(text: string, others: DialogFile[] = [], tra?: TraEntries) {
+    return messages(text, DiagnosticSeverity.Error, others, tra);
+}
+
+function warnings(text: string, others: DialogFile[] = []) {
+    return messages(text, DiagnosticSeverity.Warning, others);
+}
+
+suite("D checks", () => {
+    test("reports unterminated strings", () => {
+        assert.deepStrictEqual(errors("BEGIN a\nIF ~~ x SAY ~unterminated\n"), [
+            "1: Unterminated string, missing closing ~.",
+        ]);
+        assert.deepStrictEqual(
+            errors("BEGIN a\nIF ~~ x SAY %multi\nline% IF ~~ THEN EXIT END"),
+            []
+        );
+    });
+
+    test("reports chains without epilogue", () => {
+        assert.deepStrictEqual(errors("CHAIN a x ~one~ == b ~two~"), [
+            "0: CHAIN without EXIT or END.",
+        ]);
+        assert.deepStrictEqual(errors("CHAIN a x ~one~ EXIT"), []);
+    });
+
+    test("reports duplicate labels", () => {
+        const text =
+            "BEGIN a\nIF ~~ x SAY ~1~ IF ~~ THEN EXIT END\nIF ~~ x SAY ~2~ IF ~~ THEN EXIT END";
+        assert.deepStrictEqual(errors(text), ["2: State x is already defined in a."]);
+    });
+
+    test("reports GOTO to undefined states", () => {
+        const text = [
+            "BEGIN a",
+            "IF ~True()~ x SAY ~1~",
+            "  IF ~~ THEN GOTO missing",
+            "  IF ~~ THEN GOTO 12",
+            "  IF ~~ THEN EXTERN b there",
+            "END",
+        ].join("\n");
+        // numeric labels are states of the game dialog, EXTERN may lead to game dialogs
+        assert.deepStrictEqual(errors(text), ["2: State missing is not defined in a."]);
+        const other = {
+            uri: "file:///mod/other.d",
+            dialog: parse("APPEND a IF ~~ missing SAY ~2~ IF ~~ THEN EXIT END END"),
+        };
+        assert.deepStrictEqual(errors(text, [other]), []);
+    });
+
+    test("reports unreachable states of new dialogs", () => {
+        const text = [
+            "BEGIN a",
+            "IF ~True()~ start SAY ~1~ IF ~~ THEN GOTO next END",
+            "IF ~~ next SAY ~2~ IF ~~ THEN EXIT END",
+            "IF ~~ orphan SAY ~3~ IF ~~ THEN GOTO orphan2 END",
+            "IF ~~ orphan2 SAY ~4~ IF ~~ THEN EXIT END",
+            "IF ~~ extended SAY ~5~ IF ~~ THEN EXIT END",
+            "EXTEND_BOTTOM a start IF ~~ THEN GOTO extended END",
+            "APPEND b IF ~~ appended SAY ~6~ IF ~~ THEN EXIT END END",
+        ].join("\n");
+        assert.deepStrictEqual(warnings(text), [
+            "3: State orphan can't be reached from any entry state.",
+            "4: State orphan2 can't be reached from any entry state.",
+        ]);
+        const other = { uri: "file:///mod/b.d", dialog: parse("CHAIN b x ~x~ EXTERN a orphan") };
+        assert.deepStrictEqual(warnings(text, [other]), []);
+    });
+
+    test("reports missing tra entries", () => {
+        const text = "BEGIN a\nIF ~True()~ x SAY @1 IF ~~ THEN REPLY @2 EXIT END";
+        const entry = { source: "one", hover: { contents: "one" }, inlay: "one" };
+        const tra: TraEntries = new Map([["1", entry]]);
+        assert.deepStrictEqual(errors(text, [], tra), ["1: @2 is not defined in the tra file."]);
+        assert.deepStrictEqual(errors(text), []);
+    });
+});
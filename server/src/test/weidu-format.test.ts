@@ -0,0 +1,41 @@
+import * as assert from "assert";
+import { format } from "../weidu/format";
+
+/** Formatted text, the original one if nothing changed */
+function formatted(lines: string[]) {
+    const text = lines.join("\n");
+    const result = format(text, { indent: "    " });
+    return result ? result : text.split("\n");
+}
+
+suite("TP2 formatter", () => {
+    test("indents patch blocks with BEGIN", () => {
+        const expected = [
+            "BEGIN ~a~",
+            "COPY_EXISTING ~a.dlg~ ~override~",
+            "    DECOMPILE_AND_PATCH BEGIN",
+            "        REPLACE_TEXTUALLY ~a~ ~b~",
+            "    END",
+            "    UNKNOWN_PATCH BEGIN",
+            "        SAY 0x8 @1",
+            "    END",
+            "PRINT ~x~",
+            "",
+            "BEGIN ~b~",
+            "PRINT ~y~",
+        ];
+        assert.deepStrictEqual(formatted(expected.map((x) => x.trim())), expected);
+    });
+
+    test("indents a block on the line after its header", () => {
+        const expected = [
+            "BEGIN ~a~",
+            "ALTER_TLK_LIST BEGIN 1 2 END",
+            "BEGIN",
+            "    SAY_EVALUATED ~x~",
+            "END",
+            "PRINT ~x~",
+        ];
+        assert.deepStrictEqual(formatted(expected.map((x) => x.trim())), expected);
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import { check, FunctionInfo } from "../weidu/lint";
+
+const functions = new Map<string, FunctionInfo>([
+    [
+        "f",
+        {
+            context: "action",
+            dtype: "function",
+            params: [
+                { name: "a", type: "int", section: "INT_VAR" },
+                { name: "b", type: "int", section: "INT_VAR" },
+            ],
+        },
+    ],
+]);
+
+/** Diagnostic messages for a tp2 file */
+function messages(text: string) {
+    return check("file:///mymod/setup-mymod.tp2", text, functions, new Map()).map((x) => x.message);
+}
+
+suite("TP2 linter", () => {
+    test("patch blocks are balanced", () => {
+        const text = [
+            "BEGIN ~a~",
+            "COPY_EXISTING ~a.dlg~ ~override~",
+            "    DECOMPILE_AND_PATCH BEGIN",
+            "        REPLACE_TEXTUALLY ~a~ ~b~",
+            "    END",
+            "    PATCH_DEFINE_ARRAY list BEGIN ~a~ ~b~ END",
+            "    PATCH_WITH_TRA ~x.tra~ BEGIN",
+            "        SAY 0x8 @1",
+            "    END",
+            "BUT_ONLY",
+        ].join("\n");
+        assert.deepStrictEqual(messages(text), []);
+    });
+
+    test("comparisons in values are not parameters", () => {
+        assert.deepStrictEqual(messages("BEGIN ~a~\nLAF f INT_VAR a = x >= 1 b = y != 2 END"), []);
+        assert.deepStrictEqual(messages("BEGIN ~a~\nLAF f INT_VAR a = x<=1 c = 2 END"), [
+            "Unknown parameter c of f.",
+        ]);
+    });
+
+    test("calls are not checked in files including other libraries", () => {
+        assert.deepStrictEqual(messages("BEGIN ~a~\nLAF g END"), ["Function g is not defined."]);
+        for (const include of ["INCLUDE", "ACTION_INCLUDE", "REINCLUDE", "ACTION_REINCLUDE"]) {
+            const text = `BEGIN ~a~\n${include} ~lib/a.tpa~\nLAF g END`;
+            assert.deepStrictEqual(messages(text), [], include);
+        }
+        assert.deepStrictEqual(messages("BEGIN ~a~\nACTION_INCLUDE ~lib/a.tph~\nLAF g END"), [
+            "Function g is not defined.",
+        ]);
+    });
+
+    test("reports unbalanced blocks", () => {
+        assert.deepStrictEqual(messages("BEGIN ~a~\nACTION_IF 1 BEGIN\nEND\nEND"), [
+            "END without matching BEGIN.",
+        ]);
+    });
+});
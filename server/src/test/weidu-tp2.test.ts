@@ -0,0 +1,50 @@
+import * as assert from "assert";
+import { codeTokens, tokenize } from "../weidu/lexer";
+import { tp2 } from "../weidu/symbols";
+import { structure } from "../weidu/tp2";
+
+const text = `BACKUP ~mymod/backup~
+AUTHOR ~me~
+
+BEGIN ~First~
+COPY_EXISTING ~a.dlg~ ~override~
+    DECOMPILE_AND_PATCH BEGIN
+        REPLACE_TEXTUALLY ~a~ ~b~
+    END
+    PATCH_DEFINE_ARRAY list BEGIN ~a~ ~b~ END
+    PATCH_WITH_TRA ~x.tra~ BEGIN
+        SAY 0x8 @1
+    END
+    UNKNOWN_PATCH BEGIN
+        SAY 0x8 @2
+    END
+BUT_ONLY
+ALTER_TLK_LIST BEGIN 1 2 END BEGIN
+    SAY_EVALUATED ~x~
+END
+
+BEGIN @10
+DEFINE_ACTION_FUNCTION foo BEGIN
+    PRINT ~x~
+END
+`;
+
+suite("TP2 structure", () => {
+    test("BEGIN of patch blocks doesn't start a component", () => {
+        const { components, unmatched } = structure(codeTokens(tokenize(text)));
+        assert.strictEqual(components.length, 2);
+        assert.deepStrictEqual(unmatched, []);
+    });
+
+    test("outline has only real components", () => {
+        const symbols = tp2(text);
+        assert.deepStrictEqual(
+            symbols.map((x) => x.name),
+            ["BACKUP", "AUTHOR", "First", "@10"]
+        );
+        assert.deepStrictEqual(
+            symbols[3].children?.map((x) => x.name),
+            ["foo"]
+        );
+    });
+});
@@ -1,14 +1,18 @@
 import * as cp from "child_process";
 import * as fs from "fs";
 import * as path from "path";
-import { CompletionItemKind, MarkupKind } from "vscode-languageserver/node";
+import {
+    CompletionItemKind,
+    MarkupKind,
+    ParameterInformation,
+    SymbolKind,
+} from "vscode-languageserver/node";
 import {
     conlog,
     findFiles,
     ParseItemList,
     ParseResult,
     pathToUri,
-    RegExpMatchArrayWithIndices,
     sendParseResult,
     tmpDir,
     uriToPath,
@@ -21,6 +25,10 @@ import { HeaderData as LanguageHeaderData } from "./language";
 import * as pool from "./pool";
 import { connection } from "./server";
 import { WeiDUsettings } from "./settings";
+import * as signature from "./signature";
+import { tokenize } from "./weidu/lexer";
+import { fileParams, Param } from "./weidu/params";
+import { functionDefinitions } from "./weidu/tp2";
 
 const valid_extensions = new Map([
     [".tp2", "tp2"],
@@ -36,14 +44,22 @@ interface WeiduHeaderData {
     definitions: definition.Definitions;
 }
 
-interface Define {
+export interface Define {
     name: string;
-    context: "action" | "patch";
+    context: "action" | "patch" | "dimorphic";
     dtype: "function" | "macro";
     jsdoc?: jsdoc.JSdoc;
+    /** From the definition header, with types and descriptions from jsdoc */
+    params: Param[];
 }
 interface Defines extends Array<Define> { }
 
+export interface DefineEx extends Define {
+    uri: string;
+}
+/** Functions and macros by name, for checking calls */
+export interface Functions extends Map<string, DefineEx> { }
+
 /** `text` looks like this
  *
  * `[ua.tp2]  ERROR at line 30 column 1-63` */
@@ -249,16 +265,20 @@ export function compile(uri: string, settings: WeiDUsettings, interactive = fals
     });
 }
 
-export async function loadHeaders(headersDirectory: string) {
+/** @param external headers outside of the workspace are shown with absolute paths */
+export async function loadHeaders(headersDirectory: string, external = false) {
     let completions: completion.CompletionListEx = [];
     const hovers: hover.HoverMapEx = new Map();
     const definitions: definition.Data = new Map();
+    const signatures: signature.SigMap = new Map();
+    const functions: Functions = new Map();
     const headerFiles = findFiles(headersDirectory, "tph");
 
     const { results, errors } = await pool.processHeaders(
         headerFiles,
         headersDirectory,
-        loadFileData
+        loadFileData,
+        external
     );
 
     if (errors.length > 0) {
@@ -274,116 +294,109 @@ export async function loadHeaders(headersDirectory: string) {
         for (const [key, value] of x.definition) {
             definitions.set(key, value);
         }
+        for (const [key, value] of x.signature || []) {
+            signatures.set(key, value);
+        }
+        for (const [key, value] of x.functions || []) {
+            functions.set(key, value);
+        }
     });
 
     const result: LanguageHeaderData = {
         completion: completions,
         hover: hovers,
         definition: definitions,
+        signature: signatures,
+        functions: functions,
     };
     return result;
 }
 
+/** `DEFINE_DIMORPHIC_FUNCTION` can be launched both as an action and as a patch */
+function defineContext(keyword: string): Define["context"] {
+    if (keyword.startsWith("DEFINE_ACTION")) {
+        return "action";
+    }
+    if (keyword.startsWith("DEFINE_PATCH")) {
+        return "patch";
+    }
+    return "dimorphic";
+}
+
 function findSymbols(text: string) {
     const defineList: Defines = [];
-    const defineRegex =
-        /((\/\*\*\s*\n([^*]|(\*(?!\/)))*\*\/)\r?\n)?(DEFINE_ACTION_FUNCTION|DEFINE_ACTION_MACRO|DEFINE_PATCH_FUNCTION|DEFINE_PATCH_MACRO)\s+(\w+)/gm;
-
-    const matches = text.matchAll(defineRegex);
-    for (const m of matches) {
-        const name = m[6];
-        let context: "action" | "patch";
-        let dtype: "function" | "macro";
-        if (m[5].startsWith("DEFINE_ACTION")) {
-            context = "action";
-        } else {
-            context = "patch";
-        }
-        if (m[5].endsWith("FUNCTION")) {
-            dtype = "function";
-        } else {
-            dtype = "macro";
-        }
-
-        const item: Define = { name: name, context: context, dtype: dtype };
-
-        // check for docstring
-        if (m[2]) {
-            const jsd = jsdoc.parse(m[2]);
-            item.jsdoc = jsd;
+    const definitions: definition.Definitions = [];
+    const params = fileParams(text);
+
+    for (const def of functionDefinitions(tokenize(text))) {
+        const name = def.name.value;
+        const item: Define = {
+            name: name,
+            context: defineContext(def.keyword.value),
+            dtype: def.keyword.value.endsWith("FUNCTION") ? "function" : "macro",
+            params: params.get(name) || [],
+        };
+        if (def.doc) {
+            item.jsdoc = jsdoc.parse(def.doc.value);
         }
-
         defineList.push(item);
+        definitions.push({
+            name: name,
+            line: def.name.line,
+            start: def.name.character,
+            end: def.name.character + name.length,
+            kind: item.dtype == "macro" ? SymbolKind.Field : SymbolKind.Function,
+        });
     }
-    const definitions = findDefinitions(text);
     const result: WeiduHeaderData = { defines: defineList, definitions: definitions };
     return result;
 }
 
-function jsdocToMD(jsd: jsdoc.JSdoc) {
-    let md = "\n---\n";
-    if (jsd.desc) {
-        md += `\n${jsd.desc}`;
-    }
-    if (jsd.args.length > 0) {
-        // types from IElib https://ielib.bgforge.net/types/
-        const intVars = jsd.args.filter((item) => {
-            switch (item.type) {
-                case "bool":
-                case "int":
-                    return true;
-                default:
-                    return false;
-            }
-        });
-        const strVars = jsd.args.filter((item) => {
-            switch (item.type) {
-                case "ids":
-                case "resref":
-                case "filename":
-                case "string":
-                    return true;
-                default:
-                    return false;
-            }
-        });
-        if (intVars.length > 0) {
-            md += "\n\n|INT_VAR|Name|Default|Description|\n|:-|:-|:-:|:-|";
-            for (const arg of intVars) {
-                md += `\n| \`${arg.type}\` | ${arg.name} |`;
-                if (arg.default) {
-                    md += `${arg.default}`;
-                }
-                md += "|";
-                if (arg.description) {
-                    md += `${arg.description}`;
-                }
-                md += "|";
-            }
+const sections: signature.Section[] = ["INT_VAR", "STR_VAR", "RET", "RET_ARRAY"];
+
+/** Parameters table, one row per parameter, sections after the first one are bold rows */
+function paramsToMD(params: Param[]) {
+    let md = "";
+    for (const section of sections) {
+        const sectionParams = params.filter((x) => x.section == section);
+        if (sectionParams.length == 0) {
+            continue;
         }
-        if (strVars.length > 0) {
-            if (intVars.length == 0) {
-                md += "\n\n|STR_VAR|Name|Default|Description|\n|:-|:-|:-:|:-|";
-            } else {
-                md += "\n|**STR_VAR**||||";
+        if (md == "") {
+            md += `\n\n|${section}|Name|Default|Description|\n|:-|:-|:-:|:-|`;
+        } else {
+            md += `\n|**${section}**||||`;
+        }
+        for (const param of sectionParams) {
+            md += "\n|";
+            if (param.type) {
+                md += ` \`${param.type}\` `;
             }
-            for (const arg of strVars) {
-                md += `\n| \`${arg.type}\` | ${arg.name} |`;
-                if (arg.default) {
-                    md += `${arg.default}`;
-                }
-                md += "|";
-                if (arg.description) {
-                    md += `${arg.description}`;
-                }
-                md += "|";
+            md += `| ${param.name} |`;
+            if (param.default) {
+                md += `\`${param.default}\``;
             }
+            md += "|";
+            if (param.description) {
+                md += `${param.description}`;
+            }
+            md += "|";
         }
     }
-    if (jsd.ret) {
+    return md;
+}
+
+function defineToMD(symbol: Define) {
+    const jsd = symbol.jsdoc;
+    let md = "\n---\n";
+    if (jsd?.desc) {
+        md += `\n${jsd.desc}`;
+    }
+    md += paramsToMD(symbol.params);
+    if (jsd?.ret && !jsd.ret.name) {
         md += `\n\n Returns \`${jsd.ret.type}\``;
     }
-    if (jsd.deprecated) {
+    if (jsd?.deprecated) {
         if (jsd.deprecated === true) {
             md += "\n\n---\n\nDeprecated.";
         } else {
@@ -407,10 +420,80 @@ export function loadFileData(uri: string, text: string, filePath: string) {
         hover: functions.hovers,
         completion: functions.completions,
         definition: definitions,
+        signature: getSignatures(symbols.defines, uri),
+        functions: getFunctions(symbols.defines, uri),
     };
     return result;
 }
 
+function getFunctions(symbols: Defines, uri: string) {
+    const functions: Functions = new Map();
+    for (const symbol of symbols) {
+        functions.set(symbol.name, { ...symbol, uri: uri });
+    }
+    return functions;
+}
+
+/** Functions and macros defined in a file, without hovers and such */
+export function fileFunctions(uri: string, text: string) {
+    return getFunctions(findSymbols(text).defines, uri);
+}
+
+function getSignatures(symbols: Defines, uri: string) {
+    const signatures: signature.SigMap = new Map();
+    for (const symbol of symbols) {
+        signatures.set(symbol.name, defineToSig(symbol, uri));
+    }
+    return signatures;
+}
+
+/** `LAF name INT_VAR a = 1 STR_VAR b RET c END`. Macros don't have parameters. */
+function defineToSig(symbol: Define, uri: string) {
+    const launchers = {
+        action: { function: "LAF", macro: "LAM" },
+        patch: { function: "LPF", macro: "LPM" },
+        dimorphic: { function: "LAF", macro: "LAM" },
+    };
+    let label = `${launchers[symbol.context][symbol.dtype]} ${symbol.name}`;
+    const parameters: ParameterInformation[] = [];
+    if (symbol.dtype == "function") {
+        for (const section of sections) {
+            const sectionParams = symbol.params.filter((x) => x.section == section);
+            if (sectionParams.length == 0) {
+                continue;
+            }
+            label += ` ${section}`;
+            for (const param of sectionParams) {
+                label += " ";
+                const type = param.type || section;
+                let doc = ["```" + "weidu-tp2-tooltip", `${type} ${param.name}`, "```"].join("\n");
+                if (param.description) {
+                    doc += "\n";
+                    doc += param.description;
+                }
+                parameters.push({
+                    label: [label.length, label.length + param.name.length],
+                    documentation: { kind: "markdown", value: doc },
+                });
+                label += param.name;
+                if (param.default !== undefined) {
+                    label += ` = ${param.default}`;
+                }
+            }
+        }
+        label += " END";
+    }
+
+    const sig: signature.SigInfoEx = { label: label, uri: uri, parameters: parameters };
+    if (symbol.jsdoc?.desc) {
+        sig.documentation = {
+            kind: "markdown",
+            value: "\n---\n" + symbol.jsdoc.desc,
+        };
+    }
+    return sig;
+}
+
 function loadFunctions(uri: string, symbols: Defines, filePath: string) {
     const langId = "weidu-tp2-tooltip";
     const completions: completion.CompletionListEx = [];
@@ -426,9 +509,8 @@ function loadFunctions(uri: string, symbols: Defines, filePath: string) {
             "```",
         ].join("\n");
 
-        if (symbol.jsdoc) {
-            const jsdmd = jsdocToMD(symbol.jsdoc);
-            markdownValue += jsdmd;
+        if (symbol.jsdoc || symbol.params.length > 0) {
+            markdownValue += defineToMD(symbol);
         }
 
         const markdownContents = { kind: MarkupKind.Markdown, value: markdownValue };
@@ -450,26 +532,3 @@ function loadFunctions(uri: string, symbols: Defines, filePath: string) {
     }
     return { completions: completions, hovers: hovers };
 }
-
-function findDefinitions(text: string) {
-    const definitions = [];
-    const lines = text.split("\n");
-    const defineRegex =
-        /^(DEFINE_ACTION_FUNCTION|DEFINE_ACTION_MACRO|DEFINE_PATCH_FUNCTION|DEFINE_PATCH_MACRO)\s+(\w+)/d;
-    for (let i = 0; i < lines.length; i++) {
-        const l = lines[i];
-        const match = defineRegex.exec(l);
-        if (match) {
-            const name = match[2];
-            const index = (match as RegExpMatchArrayWithIndices).indices[2];
-            const item: definition.Definition = {
-                name: name,
-                line: i,
-                start: index[0],
-                end: index[1],
-            };
-            definitions.push(item);
-        }
-    }
-    return definitions;
-}
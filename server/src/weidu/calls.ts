@@ -0,0 +1,346 @@
+/**
+ * WeiDU function calls
+ *
+ * Function calls look like `LAF name INT_VAR a = 1 STR_VAR b = ~x~ RET c END` and often span
+ * many lines. Parameters are passed by name, so the position in a call is described by
+ * the current section and the name of the parameter being written rather than by an index.
+ */
+
+import { Position } from "vscode-languageserver/node";
+import { Section } from "../signature";
+import { codeTokens, Token, tokenize } from "./lexer";
+
+export interface Launched {
+    context: "action" | "patch";
+    dtype: "function" | "macro";
+}
+
+/** Call keywords, with the kind of definitions they launch */
+export const launchers = new Map<string, Launched>([
+    ["LAF", { context: "action", dtype: "function" }],
+    ["LAUNCH_ACTION_FUNCTION", { context: "action", dtype: "function" }],
+    ["LPF", { context: "patch", dtype: "function" }],
+    ["LAUNCH_PATCH_FUNCTION", { context: "patch", dtype: "function" }],
+    ["LAM", { context: "action", dtype: "macro" }],
+    ["LAUNCH_ACTION_MACRO", { context: "action", dtype: "macro" }],
+    ["LPM", { context: "patch", dtype: "macro" }],
+    ["LAUNCH_PATCH_MACRO", { context: "patch", dtype: "macro" }],
+]);
+export const sections = new Set(["INT_VAR", "STR_VAR", "RET", "RET_ARRAY"]);
+
+export interface Call {
+    name: string;
+    macro: boolean;
+    /** Absent before the first section keyword */
+    section?: Section;
+    /** Parameter at the cursor, empty if it's between parameters */
+    param: string;
+    /** Cursor is at the value of `param`, after `=` */
+    value: boolean;
+    /** Parameters already passed, by section */
+    passed: Map<Section, Set<string>>;
+}
+
+/** Text from the start of document up to the position */
+function textBefore(text: string, position: Position) {
+    const lines = text.split(/\r?\n/g).slice(0, position.line + 1);
+    lines[lines.length - 1] = lines[lines.length - 1].slice(0, position.character);
+    return lines.join("\n");
+}
+
+/** Index of the launcher of an unclosed call, or -1 */
+function findLauncher(code: Token[]) {
+    for (let i = code.length - 1; i >= 0; i--) {
+        const token = code[i];
+        if (token.kind != "word") {
+            continue;
+        }
+        // call is already closed, or we're not in a call at all
+        if (token.value == "END" || token.value == "BEGIN") {
+            return -1;
+        }
+        if (launchers.has(token.value)) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/** Keywords taking operands that follow them, with the number of operands */
+const prefixOperators = new Map([
+    ["NOT", 1],
+    ["-", 1],
+    ["BNOT", 1],
+    ["ABS", 1],
+    ["EVAL", 1],
+    ["EVALUATE_BUFFER", 1],
+    ["IS_AN_INT", 1],
+    ["VARIABLE_IS_SET", 1],
+    ["STRING_LENGTH", 1],
+    ["BYTE_AT", 1],
+    ["SBYTE_AT", 1],
+    ["SHORT_AT", 1],
+    ["SSHORT_AT", 1],
+    ["LONG_AT", 1],
+    ["SLONG_AT", 1],
+    ["FILE_EXISTS", 1],
+    ["FILE_EXISTS_IN_GAME", 1],
+    ["DIRECTORY_EXISTS", 1],
+    ["GAME_IS", 1],
+    ["GAME_INCLUDES", 1],
+    ["SIZE_OF_FILE", 1],
+    ["FILE_SIZE", 2],
+    ["FILE_MD5", 2],
+    ["FILE_CONTAINS", 2],
+    ["FILE_CONTAINS_EVALUATED", 2],
+    ["MOD_IS_INSTALLED", 2],
+]);
+
+/** Operators between two operands */
+const binaryOperators = new Set([
+    "+",
+    "-",
+    "*",
+    "/",
+    "**",
+    "^",
+    "^^",
+    "?",
+    ":",
+    "<",
+    ">",
+    "<=",
+    ">=",
+    "==",
+    "!=",
+    "&",
+    "|",
+    "&&",
+    "||",
+    "AND",
+    "OR",
+    "MODULO",
+    "REM",
+    "BAND",
+    "BOR",
+    "BXOR",
+    "BLSL",
+    "BLSR",
+    "BASR",
+    "STRING_EQUAL",
+    "STRING_EQUAL_CASE",
+    "STRING_COMPARE",
+    "STRING_COMPARE_CASE",
+    "STRING_COMPARE_REGEXP",
+    "STRING_CONTAINS_REGEXP",
+    "STRING_MATCHES_REGEXP",
+    "STR_EQ",
+    "STR_CMP",
+]);
+
+/** Expression can't end with this token, another operand must follow */
+function isOperator(token: Token) {
+    return (
+        token.kind != "string" &&
+        (binaryOperators.has(token.value) || prefixOperators.has(token.value) || token.value == "(")
+    );
+}
+
+/** Index after the closing paren, or the end of tokens */
+function skipParens(tokens: Token[], i: number) {
+    let depth = 0;
+    for (; i < tokens.length; i++) {
+        if (tokens[i].value == "(") {
+            depth++;
+        } else if (tokens[i].value == ")") {
+            depth--;
+            if (depth == 0) {
+                return i + 1;
+            }
+        }
+    }
+    return i;
+}
+
+/** Index after an operand: a value, a parenthesized expression, or a prefix operator with operands */
+function operand(tokens: Token[], i: number): number {
+    const token = tokens[i];
+    if (!token) {
+        return i;
+    }
+    if (token.kind == "operator") {
+        return token.value == "(" ? skipParens(tokens, i) : i;
+    }
+    const arity = token.kind == "word" ? prefixOperators.get(token.value) : undefined;
+    if (arity !== undefined) {
+        i++;
+        for (let n = 0; n < arity; n++) {
+            i = operand(tokens, i);
+        }
+        return i;
+    }
+    // function-like, such as `RESOLVE_STR_REF (~text~)`
+    if (token.kind == "word" && tokens[i + 1]?.value == "(") {
+        return skipParens(tokens, i + 1);
+    }
+    return i + 1;
+}
+
+/** Index after an expression starting at `i` */
+function expression(tokens: Token[], i: number) {
+    i = operand(tokens, i);
+    while (tokens[i] && tokens[i].kind != "string" && binaryOperators.has(tokens[i].value)) {
+        i = operand(tokens, i + 1);
+    }
+    return i;
+}
+
+/** Parameter in a section, `a = 1 + 2` or just `a` */
+interface SectionArg {
+    name: Token;
+    /** Tokens of the value, absent if there's no `=` */
+    value?: Token[];
+}
+
+/** Parameters of a section: `a = 1 + 2 b c = EVAL ~%x%~` */
+function sectionArgs(tokens: Token[]) {
+    const result: SectionArg[] = [];
+    let i = 0;
+    while (i < tokens.length) {
+        const name = tokens[i];
+        if (tokens[i + 1]?.value == "=") {
+            const end = expression(tokens, i + 2);
+            result.push({ name: name, value: tokens.slice(i + 2, end) });
+            i = Math.max(end, i + 2);
+        } else {
+            result.push({ name: name });
+            i++;
+        }
+    }
+    return result;
+}
+
+/** Names passed in a section */
+function passedNames(args: SectionArg[]) {
+    return new Set(args.map((x) => x.name.value));
+}
+
+/** Function or macro call at the position, if any */
+export function callAt(text: string, position: Position) {
+    const before = textBefore(text, position);
+    const tokens = tokenize(before);
+    const lastToken = tokens[tokens.length - 1];
+    if (lastToken && lastToken.kind == "comment" && lastToken.end == before.length) {
+        return;
+    }
+    const code = codeTokens(tokens);
+
+    const launcher = findLauncher(code);
+    const name = code[launcher + 1];
+    if (launcher == -1 || !name || name.kind != "word" || name.end == before.length) {
+        return;
+    }
+    const args = code.slice(launcher + 2);
+    const call: Call = {
+        name: name.value,
+        macro: launchers.get(code[launcher].value)?.dtype == "macro",
+        param: "",
+        value: false,
+        passed: new Map(),
+    };
+    if (call.macro) {
+        // macros don't have parameters
+        return args.length == 0 ? call : undefined;
+    }
+
+    let sectionStart = 0;
+    args.forEach((token, i) => {
+        if (token.kind == "word" && sections.has(token.value)) {
+            if (call.section) {
+                const passed = passedNames(sectionArgs(args.slice(sectionStart, i)));
+                call.passed.set(call.section, passed);
+            }
+            call.section = token.value as Section;
+            sectionStart = i + 1;
+        }
+    });
+    if (!call.section) {
+        return call;
+    }
+
+    const params = sectionArgs(args.slice(sectionStart));
+    const last = params[params.length - 1];
+    if (!last) {
+        call.passed.set(call.section, new Set());
+        return call;
+    }
+    const end = last.value?.[last.value.length - 1] || last.name;
+    const touching = end.end == before.length;
+    if (!last.value) {
+        // `a|` or `a |`, waiting for `=`. The parameter being written is not passed yet.
+        call.param = last.name.value;
+        call.passed.set(call.section, passedNames(touching ? params.slice(0, -1) : params));
+        return call;
+    }
+    call.passed.set(call.section, passedNames(params));
+    // `a = |`, `a = 1|` and `a = 1 + |` are still `a`, `a = 1 |` is the next parameter
+    if (last.value.length == 0 || touching || isOperator(end)) {
+        call.param = last.name.value;
+        call.value = true;
+    }
+    return call;
+}
+
+export interface CallArg {
+    section: Section;
+    name: Token;
+}
+
+/** Complete call, `LAF name INT_VAR a = 1 RET b END` */
+export interface CallTokens {
+    launcher: Token;
+    name: Token;
+    args: CallArg[];
+}
+
+/** All function and macro calls in code tokens */
+export function findCalls(code: Token[]) {
+    const result: CallTokens[] = [];
+    code.forEach((token, i) => {
+        const name = code[i + 1];
+        if (token.kind != "word" || !name || name.kind != "word") {
+            return;
+        }
+        const launched = launchers.get(token.value);
+        if (!launched) {
+            return;
+        }
+        if (launched.dtype == "macro") {
+            result.push({ launcher: token, name: name, args: [] });
+            return;
+        }
+        const call: CallTokens = { launcher: token, name: name, args: [] };
+        let section: Section | undefined;
+        let sectionStart = 0;
+        const addArgs = (end: number) => {
+            for (const arg of section ? sectionArgs(code.slice(sectionStart, end)) : []) {
+                call.args.push({ section: section as Section, name: arg.name });
+            }
+        };
+        let j = i + 2;
+        for (; j < code.length; j++) {
+            const arg = code[j];
+            if (arg.kind == "word" && (arg.value == "END" || arg.value == "BEGIN")) {
+                break;
+            }
+            if (arg.kind == "word" && sections.has(arg.value)) {
+                addArgs(j);
+                section = arg.value as Section;
+                sectionStart = j + 1;
+            }
+        }
+        addArgs(j);
+        result.push(call);
+    });
+    return result;
+}
@@ -0,0 +1,57 @@
+/**
+ * WeiDU completion inside function calls
+ *
+ * Only the parameters of the current section which are not passed yet are offered,
+ * along with the keywords of the following sections and `END`.
+ */
+
+import {
+    CompletionItem,
+    CompletionItemKind,
+    InsertTextFormat,
+    MarkupKind,
+} from "vscode-languageserver/node";
+import { Call, sections } from "./calls";
+import { Param } from "./params";
+
+/** `$`, `}` and `\` are special in snippets */
+function escapeSnippet(text: string) {
+    return text.replace(/[$}\\]/g, "\\$&");
+}
+
+function paramItem(param: Param) {
+    const item: CompletionItem = {
+        label: param.name,
+        kind: CompletionItemKind.Variable,
+        detail: param.type ? `${param.section} ${param.type}` : param.section,
+    };
+    if (param.description) {
+        item.documentation = { kind: MarkupKind.Markdown, value: param.description };
+    }
+    // RET and RET_ARRAY take variable names only
+    if (param.section == "INT_VAR" || param.section == "STR_VAR") {
+        const value = param.default === undefined ? "" : escapeSnippet(param.default);
+        item.insertText = `${param.name} = \${1:${value}}`;
+        item.insertTextFormat = InsertTextFormat.Snippet;
+    }
+    return item;
+}
+
+/** @param params parameters of the called function */
+export function paramCompletion(call: Call, params: Param[]) {
+    const order = [...sections];
+    const current = call.section ? order.indexOf(call.section) : -1;
+    const passed = call.section ? call.passed.get(call.section) : undefined;
+    const result = params
+        .filter((x) => x.section == call.section && !passed?.has(x.name))
+        .map((x) => paramItem(x));
+
+    const following = order
+        .slice(current + 1)
+        .filter((section) => params.some((x) => x.section == section));
+    for (const section of following) {
+        result.push({ label: section, kind: CompletionItemKind.Keyword });
+    }
+    result.push({ label: "END", kind: CompletionItemKind.Keyword });
+    return result;
+}
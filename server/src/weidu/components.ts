@@ -0,0 +1,302 @@
+/**
+ * WeiDU TP2 components and their dependencies
+ *
+ * Components are numbered in order, `DESIGNATED` sets the number and the following components
+ * continue from it. Dependencies come from `REQUIRE_COMPONENT`, `FORBID_COMPONENT` and
+ * `MOD_IS_INSTALLED` in `REQUIRE_PREDICATE`. Other mods are only known by name, so only
+ * references to the mod itself are checked.
+ */
+
+import * as path from "path";
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node";
+import { Data as PreviewData, Edge, Node } from "../preview";
+import { TraEntries } from "../translation";
+import { codeTokens, Token, tokenize, tokenRange } from "./lexer";
+import { displayText } from "./symbols";
+import { structure } from "./tp2";
+
+export interface ComponentRef {
+    kind: "require" | "forbid";
+    /** Mod name, see `modName` */
+    mod: string;
+    /** Component number or label */
+    component: Token;
+}
+
+export interface ComponentInfo {
+    number: number;
+    begin: Token;
+    /** Absent if the component has no name, which is a syntax error */
+    name?: Token;
+    /** Value of `DESIGNATED` */
+    designated?: Token;
+    label?: string;
+    groups: Token[];
+    refs: ComponentRef[];
+}
+
+/** Predicate parts that are skipped when looking for `MOD_IS_INSTALLED` */
+const connectives = new Set(["(", ")", "AND", "OR", "&&", "||"]);
+const negations = new Set(["!", "NOT"]);
+
+/** Mods are referred to by tp2 path, with or without the `setup-` prefix and the folder */
+export function modName(value: string) {
+    return path
+        .basename(value.replace(/\\/g, "/"))
+        .toLowerCase()
+        .replace(/\.tp2$/, "")
+        .replace(/^setup-/, "");
+}
+
+/**
+ * `MOD_IS_INSTALLED` in a predicate, `(MOD_IS_INSTALLED ~a.tp2~ 1 OR !MOD_IS_INSTALLED ~b.tp2~ 2)`.
+ * Negated ones are forbidden. Other predicates end the search.
+ */
+function predicateRefs(code: Token[], start: number, end: number) {
+    const result: ComponentRef[] = [];
+    let negated = false;
+    let i = start;
+    while (i <= end) {
+        let value = code[i].value;
+        if (negations.has(value)) {
+            negated = true;
+            i++;
+            continue;
+        }
+        if (connectives.has(value)) {
+            i++;
+            continue;
+        }
+        if (value.startsWith("!")) {
+            negated = true;
+            value = value.slice(1);
+        }
+        const mod = code[i + 1];
+        const component = code[i + 2];
+        if (value != "MOD_IS_INSTALLED" || !mod || !component) {
+            break;
+        }
+        result.push({
+            kind: negated ? "forbid" : "require",
+            mod: modName(displayText(mod)),
+            component: component,
+        });
+        negated = false;
+        i += 3;
+    }
+    return result;
+}
+
+function parseComponent(code: Token[], start: number, end: number, number: number) {
+    const component: ComponentInfo = {
+        number: number,
+        begin: code[start],
+        name: start < end ? code[start + 1] : undefined,
+        groups: [],
+        refs: [],
+    };
+    for (let i = start + 1; i < end; i++) {
+        const token = code[i];
+        const value = code[i + 1];
+        if (token.kind != "word" || !value) {
+            continue;
+        }
+        switch (token.value) {
+            case "DESIGNATED":
+                component.designated = value;
+                break;
+            case "LABEL":
+                component.label = displayText(value);
+                break;
+            case "GROUP":
+                component.groups.push(value);
+                break;
+            case "REQUIRE_COMPONENT":
+            case "FORBID_COMPONENT":
+                if (code[i + 2]) {
+                    component.refs.push({
+                        kind: token.value == "REQUIRE_COMPONENT" ? "require" : "forbid",
+                        mod: modName(displayText(value)),
+                        component: code[i + 2],
+                    });
+                }
+                break;
+            case "REQUIRE_PREDICATE":
+                component.refs.push(...predicateRefs(code, i + 1, end));
+                break;
+        }
+    }
+    if (component.designated) {
+        const designated = displayText(component.designated);
+        if (/^\d+$/.test(designated)) {
+            component.number = parseInt(designated);
+        }
+    }
+    return component;
+}
+
+/** Components of a TP2 file, in order */
+export function findComponents(code: Token[]) {
+    const { components } = structure(code);
+    const result: ComponentInfo[] = [];
+    let next = 0;
+    for (const x of components) {
+        const component = parseComponent(code, x.start, x.end, next);
+        next = component.number + 1;
+        result.push(component);
+    }
+    return result;
+}
+
+/** Component of the mod itself a reference points to */
+function resolve(components: ComponentInfo[], ref: ComponentRef) {
+    const value = displayText(ref.component);
+    if (/^\d+$/.test(value)) {
+        return components.find((x) => x.number == parseInt(value));
+    }
+    return components.find((x) => x.label == value);
+}
+
+function diagnostic(token: Token, message: string, severity: DiagnosticSeverity) {
+    const result: Diagnostic = {
+        severity: severity,
+        range: tokenRange(token),
+        message: message,
+        source: "BGforge MLS",
+    };
+    return result;
+}
+
+/** Requirements between components of the mod itself */
+function requirements(components: ComponentInfo[], mod: string) {
+    const result: { from: ComponentInfo; to: ComponentInfo; ref: ComponentRef }[] = [];
+    for (const from of components) {
+        for (const ref of from.refs) {
+            const to =
+                ref.mod == mod && ref.kind == "require" ? resolve(components, ref) : undefined;
+            if (to) {
+                result.push({ from: from, to: to, ref: ref });
+            }
+        }
+    }
+    return result;
+}
+
+/** Path of requirements from `start` to `goal`, if any */
+function requirementPath(
+    edges: ReturnType<typeof requirements>,
+    start: ComponentInfo,
+    goal: ComponentInfo
+) {
+    const previous = new Map<ComponentInfo, ComponentInfo>();
+    const queue = [start];
+    const seen = new Set([start]);
+    while (queue.length > 0) {
+        const current = queue.shift() as ComponentInfo;
+        if (current == goal) {
+            const result = [goal];
+            for (let x = previous.get(goal); x; x = previous.get(x)) {
+                result.unshift(x);
+            }
+            return result;
+        }
+        for (const edge of edges.filter((x) => x.from == current && !seen.has(x.to))) {
+            seen.add(edge.to);
+            previous.set(edge.to, current);
+            queue.push(edge.to);
+        }
+    }
+}
+
+/**
+ * Duplicate component numbers, references to components the mod doesn't have,
+ * and components requiring each other.
+ * @param mod name of the mod, from the tp2 file name
+ */
+export function check(code: Token[], mod: string) {
+    const components = findComponents(code);
+    const result: Diagnostic[] = [];
+
+    components.forEach((component, i) => {
+        if (components.slice(0, i).some((x) => x.number == component.number)) {
+            const message = `Component number ${component.number} is already used.`;
+            const token = component.designated || component.begin;
+            result.push(diagnostic(token, message, DiagnosticSeverity.Error));
+        }
+        for (const ref of component.refs) {
+            if (ref.mod == mod && !resolve(components, ref)) {
+                const message = `Component ${displayText(ref.component)} not found in this mod.`;
+                result.push(diagnostic(ref.component, message, DiagnosticSeverity.Warning));
+            }
+        }
+    });
+
+    const edges = requirements(components, mod);
+    for (const edge of edges) {
+        // the edge is in a cycle if there's a way back
+        const back = requirementPath(edges, edge.to, edge.from);
+        if (back) {
+            const cycle = [edge.from, ...back].map((x) => x.number).join(" -> ");
+            const message = `Dependency cycle: ${cycle}.`;
+            result.push(diagnostic(edge.ref.component, message, DiagnosticSeverity.Warning));
+        }
+    }
+    return result;
+}
+
+/**
+ * Dependency graph for preview. Components of other mods are shown as they are referred to,
+ * groups contain their components.
+ * @param tra entries of the tra file of the document, to show component names
+ */
+export function graph(text: string, mod: string, tra?: TraEntries) {
+    const components = findComponents(codeTokens(tokenize(text)));
+    if (components.length == 0) {
+        return;
+    }
+    const nodes: Node[] = [];
+    const edges: Edge[] = [];
+    const ids = new Set<string>();
+    const addNode = (node: Node) => {
+        if (!ids.has(node.data.id)) {
+            ids.add(node.data.id);
+            nodes.push(node);
+        }
+    };
+
+    for (const component of components) {
+        const name = component.name ? displayText(component.name, tra) : "";
+        const node: Node = {
+            data: { id: `${component.number}`, label: `${component.number}: ${name}` },
+        };
+        const group = component.groups[0];
+        if (group) {
+            const groupName = displayText(group, tra);
+            addNode({ data: { id: `group ${groupName}`, label: groupName, kind: "group" } });
+            node.data.parent = `group ${groupName}`;
+        }
+        addNode(node);
+    }
+
+    for (const component of components) {
+        for (const ref of component.refs) {
+            const value = displayText(ref.component);
+            let target = ref.mod == mod ? resolve(components, ref)?.number.toString() : undefined;
+            if (!target) {
+                target = `${ref.mod} ${value}`;
+                addNode({ data: { id: target, label: `${ref.mod}: ${value}`, kind: "external" } });
+            }
+            const source = `${component.number}`;
+            edges.push({
+                data: {
+                    id: `${source}-${target}-${ref.kind}`,
+                    source: source,
+                    target: target,
+                    kind: ref.kind,
+                },
+            });
+        }
+    }
+    const result: PreviewData = { nodes: nodes, edges: edges };
+    return result;
+}
@@ -0,0 +1,519 @@
+/**
+ * WeiDU D parser
+ *
+ * Finds states, their texts and transitions, and references to states from other actions.
+ * Parsing is forgiving: unknown actions are skipped, and a construct cut short by a syntax error
+ * ends where the error is, so that the rest of the file is still usable while it's being typed.
+ */
+
+import { codeTokens, isWord, Token, tokenize } from "./lexer";
+import { displayText } from "./symbols";
+
+/** Reference to a state, such as `GOTO label` or `EXTERN ~file~ label` */
+export interface StateRef {
+    /** `GOTO`, `EXTERN`, `+`, `END`, `COPY_TRANS`, `EXTEND_TOP`, `INTERJECT`, etc. */
+    keyword: Token;
+    /** Dialog file name, see `dialogName` */
+    dialog: string;
+    /** Absent when the dialog is implied, as with `GOTO` */
+    file?: Token;
+    /** Absent if the file ends before the label */
+    label?: Token;
+}
+
+export interface Say {
+    /** Dialog of the speaker, differs from the state dialog in chains */
+    dialog: string;
+    text: Token;
+}
+
+export interface Transition {
+    /** `IF`, `+`, `++`, `COPY_TRANS`, or the chain epilogue keyword */
+    start: Token;
+    trigger?: Token;
+    reply?: Token;
+    /** `DO` */
+    action?: Token;
+    /** `GOTO`, `EXTERN`, or `COPY_TRANS`. Absent for `EXIT`. */
+    next?: StateRef;
+}
+
+export interface State {
+    dialog: string;
+    /** Absent if the file ends before the label */
+    label?: Token;
+    /** `IF`, or `CHAIN` for chains */
+    start: Token;
+    /** `END`, or the last token of a chain */
+    end: Token;
+    trigger?: Token;
+    weight?: Token;
+    say: Say[];
+    transitions: Transition[];
+}
+
+/** `BEGIN`, `APPEND`, `APPEND_EARLY` and `REPLACE`, with their states */
+export interface Section {
+    keyword: Token;
+    dialog: string;
+    file: Token;
+    /** Last token of the section */
+    end: Token;
+    states: State[];
+}
+
+/** `EXTEND_TOP` and `EXTEND_BOTTOM`, transitions added to existing states */
+export interface Extension {
+    states: StateRef[];
+    transitions: Transition[];
+}
+
+export interface Dialog {
+    sections: Section[];
+    /** States in sections and chains, in order */
+    states: State[];
+    extensions: Extension[];
+    refs: StateRef[];
+}
+
+/** Parsed D file */
+export interface DialogFile {
+    uri: string;
+    dialog: Dialog;
+}
+
+/** State and the document it's in */
+export interface StateLocation {
+    uri: string;
+    state: State;
+}
+
+/** Actions taking `file label` of an existing state */
+const stateActions = new Set([
+    "ADD_STATE_TRIGGER",
+    "ADD_TRANS_TRIGGER",
+    "REPLACE_STATE_TRIGGER",
+    "REPLACE_SAY",
+    "SET_WEIGHT",
+]);
+const interjections = new Set([
+    "INTERJECT_COPY_TRANS",
+    "INTERJECT_COPY_TRANS2",
+    "INTERJECT_COPY_TRANS3",
+    "INTERJECT_COPY_TRANS4",
+]);
+const transitionStarts = new Set(["IF", "+", "++", "COPY_TRANS", "COPY_TRANS_LATE"]);
+const transitionFeatures = new Set([
+    "REPLY",
+    "DO",
+    "JOURNAL",
+    "SOLVED_JOURNAL",
+    "UNSOLVED_JOURNAL",
+    "FLAGS",
+]);
+/** Words that can't be a text or a label, they end whatever was being parsed */
+const keywords = new Set([
+    "BEGIN",
+    "END",
+    "IF",
+    "THEN",
+    "SAY",
+    "GOTO",
+    "EXTERN",
+    "EXIT",
+    "CHAIN",
+    "APPEND",
+    "APPEND_EARLY",
+    "REPLACE",
+    "INTERJECT",
+    "EXTEND_TOP",
+    "EXTEND_BOTTOM",
+    ...transitionStarts,
+    ...transitionFeatures,
+    ...stateActions,
+    ...interjections,
+]);
+
+/** Dialog files are referred to without extension, case insensitively */
+export function dialogName(token: Token) {
+    return displayText(token)
+        .toLowerCase()
+        .replace(/\.dlg$/, "");
+}
+
+export function parse(text: string) {
+    const code = codeTokens(tokenize(text));
+    const parsed: Dialog = { sections: [], states: [], extensions: [], refs: [] };
+    let i = 0;
+
+    const peek = (offset = 0): Token | undefined => code[i + offset];
+    const at = (word: string, offset = 0) => isWord(peek(offset), word);
+    /** Token that can be a value: a string, number, label or file name */
+    const isValue = (token: Token | undefined) =>
+        token !== undefined &&
+        (token.kind == "string" || (token.kind == "word" && !keywords.has(token.value)));
+    const take = () => code[i++];
+    const takeValue = () => (isValue(peek()) ? take() : undefined);
+    const skip = (word: string) => {
+        if (at(word)) {
+            i++;
+        }
+    };
+
+    /** `~text~`, `@1`, `#1`, optional female variant and sound: `~he~ ~she~ [SOUND]` */
+    const sayText = () => {
+        const token = takeValue();
+        if (!token) {
+            return;
+        }
+        if (peek()?.kind == "string") {
+            i++;
+        }
+        if (peek()?.value == "[") {
+            while (peek() && peek()?.value != "]") {
+                i++;
+            }
+            i++;
+        }
+        return token;
+    };
+
+    const ref = (keyword: Token, dialog: string, file?: Token) => {
+        const stateRef: StateRef = { keyword: keyword, dialog: dialog, file: file };
+        stateRef.label = takeValue();
+        parsed.refs.push(stateRef);
+        return stateRef;
+    };
+
+    /** `EXTERN [IF_FILE_EXISTS] file label` and similar */
+    const externRef = (keyword: Token) => {
+        skip("SAFE");
+        skip("IF_FILE_EXISTS");
+        const file = takeValue();
+        if (!file) {
+            return;
+        }
+        return ref(keyword, dialogName(file), file);
+    };
+
+    /** `GOTO label`, `+ label`, `EXTERN file label`, `EXIT` */
+    const transitionNext = (transition: Transition, dialog: string) => {
+        const token = peek();
+        if (isWord(token, "GOTO") || isWord(token, "+")) {
+            i++;
+            transition.next = ref(token as Token, dialog);
+        } else if (isWord(token, "EXTERN")) {
+            i++;
+            transition.next = externRef(token as Token);
+        } else if (isWord(token, "EXIT")) {
+            i++;
+        }
+    };
+
+    const features = (transition: Transition) => {
+        for (;;) {
+            const token = peek();
+            if (isWord(token, "REPLY")) {
+                i++;
+                transition.reply = sayText();
+            } else if (isWord(token, "DO")) {
+                i++;
+                transition.action = takeValue();
+            } else if (isWord(token, "FLAGS")) {
+                i += 2;
+            } else if (token && transitionFeatures.has(token.value)) {
+                // journal entries
+                i++;
+                sayText();
+            } else {
+                return;
+            }
+        }
+    };
+
+    /** @param dialog the state belongs to, `GOTO` targets are in it */
+    const transition = (dialog: string) => {
+        const start = take();
+        const result: Transition = { start: start };
+        switch (start.value) {
+            case "IF":
+                result.trigger = takeValue();
+                skip("THEN");
+                features(result);
+                transitionNext(result, dialog);
+                break;
+            case "+":
+                // `+ ~trigger~ + ~reply~`, the trigger may be empty: `+ + ~reply~`
+                result.trigger = takeValue();
+                skip("+");
+                result.reply = sayText();
+                features(result);
+                transitionNext(result, dialog);
+                break;
+            case "++":
+                result.reply = sayText();
+                features(result);
+                transitionNext(result, dialog);
+                break;
+            default:
+                // COPY_TRANS
+                result.next = externRef(start);
+        }
+        return result;
+    };
+
+    const transitions = (dialog: string) => {
+        const list: Transition[] = [];
+        while (transitionStarts.has(peek()?.value || "")) {
+            list.push(transition(dialog));
+        }
+        return list;
+    };
+
+    /** `IF [WEIGHT #n] ~trigger~ [THEN] [BEGIN] label SAY text [= text] transitions END` */
+    const state = (dialog: string) => {
+        const start = take();
+        const result: State = {
+            dialog: dialog,
+            start: start,
+            end: start,
+            say: [],
+            transitions: [],
+        };
+        if (at("WEIGHT")) {
+            result.weight = peek(1);
+            i += 2;
+        }
+        result.trigger = takeValue();
+        skip("THEN");
+        skip("BEGIN");
+        result.label = takeValue();
+        if (at("SAY")) {
+            i++;
+            for (;;) {
+                const say = sayText();
+                if (!say) {
+                    break;
+                }
+                result.say.push({ dialog: dialog, text: say });
+                if (peek()?.value != "=") {
+                    break;
+                }
+                i++;
+            }
+        }
+        result.transitions = transitions(dialog);
+        result.end = code[i - 1];
+        if (at("END")) {
+            result.end = take();
+        }
+        parsed.states.push(result);
+        return result;
+    };
+
+    /** States up to `END` */
+    const states = (dialog: string) => {
+        const list: State[] = [];
+        while (at("IF")) {
+            list.push(state(dialog));
+        }
+        return list;
+    };
+
+    /**
+     * `[IF ~cond~ THEN] text [= text] [DO ~action~] == file text ...`, up to the epilogue.
+     * @returns dialog of the last speaker
+     */
+    const chainTexts = (say: Say[], dialog: string) => {
+        for (;;) {
+            if (at("IF")) {
+                i++;
+                takeValue();
+                skip("THEN");
+            }
+            const token = sayText();
+            if (!token) {
+                return dialog;
+            }
+            say.push({ dialog: dialog, text: token });
+            if (at("DO")) {
+                i++;
+                takeValue();
+            }
+            if (peek()?.value == "==") {
+                i++;
+                skip("IF_FILE_EXISTS");
+                const file = takeValue();
+                if (!file) {
+                    return dialog;
+                }
+                dialog = dialogName(file);
+            } else if (peek()?.value == "=") {
+                i++;
+            } else {
+                return dialog;
+            }
+        }
+    };
+
+    /** `END file label`, `END transitions`, `EXTERN file label`, `EXIT`, `COPY_TRANS file label` */
+    const chainEpilogue = (dialog: string) => {
+        const token = peek();
+        if (!token || token.kind != "word") {
+            return [];
+        }
+        i++;
+        switch (token.value) {
+            case "END": {
+                if (transitionStarts.has(peek()?.value || "")) {
+                    return transitions(dialog);
+                }
+                const result: Transition = { start: token, next: externRef(token) };
+                return [result];
+            }
+            case "EXTERN":
+            case "COPY_TRANS":
+            case "COPY_TRANS_LATE": {
+                const result: Transition = { start: token, next: externRef(token) };
+                return [result];
+            }
+            case "EXIT": {
+                const result: Transition = { start: token };
+                return [result];
+            }
+        }
+        i--;
+        return [];
+    };
+
+    /** `CHAIN [IF [WEIGHT #n] ~trigger~ THEN] file label texts epilogue` */
+    const chain = () => {
+        const start = take();
+        const result: State = { dialog: "", start: start, end: start, say: [], transitions: [] };
+        if (at("IF")) {
+            i++;
+            if (at("WEIGHT")) {
+                result.weight = peek(1);
+                i += 2;
+            }
+            result.trigger = takeValue();
+            skip("THEN");
+        }
+        const file = takeValue();
+        if (!file) {
+            return;
+        }
+        result.dialog = dialogName(file);
+        result.label = takeValue();
+        const last = chainTexts(result.say, result.dialog);
+        result.transitions = chainEpilogue(last);
+        result.end = code[i - 1];
+        parsed.states.push(result);
+    };
+
+    /** `BEGIN`, `APPEND`, `REPLACE` */
+    const section = () => {
+        const keyword = take();
+        skip("IF_FILE_EXISTS");
+        const file = takeValue();
+        if (!file) {
+            return;
+        }
+        const dialog = dialogName(file);
+        const result: Section = {
+            keyword: keyword,
+            dialog: dialog,
+            file: file,
+            end: file,
+            states: [],
+        };
+        if (keyword.value == "BEGIN") {
+            // non-pausing flag
+            if (peek()?.kind == "word" && /^\d+$/.test(peek()?.value || "")) {
+                i++;
+            }
+            result.states = states(dialog);
+        } else {
+            result.states = states(dialog);
+            skip("END");
+        }
+        result.end = code[i - 1];
+        parsed.sections.push(result);
+    };
+
+    /** `EXTEND_TOP file label [label...] [#position] transitions END` */
+    const extend = () => {
+        const keyword = take();
+        const file = takeValue();
+        if (!file) {
+            return;
+        }
+        const dialog = dialogName(file);
+        const result: Extension = { states: [], transitions: [] };
+        while (isValue(peek()) && !peek()?.value.startsWith("#")) {
+            result.states.push(ref(keyword, dialog, file));
+        }
+        if (peek()?.value.startsWith("#")) {
+            i++;
+        }
+        result.transitions = transitions(dialog);
+        skip("END");
+        parsed.extensions.push(result);
+    };
+
+    /** `INTERJECT file label var texts epilogue`, `INTERJECT_COPY_TRANS file label texts END` */
+    const interject = () => {
+        const keyword = take();
+        const stateRef = externRef(keyword);
+        if (!stateRef) {
+            return;
+        }
+        if (keyword.value == "INTERJECT") {
+            takeValue();
+        }
+        const say: Say[] = [];
+        const last = chainTexts(say, stateRef.dialog);
+        if (keyword.value == "INTERJECT") {
+            chainEpilogue(last);
+        } else {
+            skip("END");
+        }
+    };
+
+    while (i < code.length) {
+        const token = code[i];
+        if (token.kind != "word") {
+            i++;
+            continue;
+        }
+        const word = token.value;
+        if (word == "BEGIN" || word == "APPEND" || word == "APPEND_EARLY" || word == "REPLACE") {
+            section();
+        } else if (word == "CHAIN") {
+            chain();
+        } else if (word == "EXTEND_TOP" || word == "EXTEND_BOTTOM") {
+            extend();
+        } else if (word == "INTERJECT" || interjections.has(word)) {
+            interject();
+        } else if (stateActions.has(word)) {
+            i++;
+            externRef(token);
+        } else {
+            i++;
+        }
+    }
+    return parsed;
+}
+
+/** States of dialog `name` in the files, in order */
+export function dialogStates(name: string, files: DialogFile[]) {
+    const result: StateLocation[] = [];
+    for (const file of files) {
+        for (const state of file.dialog.states) {
+            if (state.dialog == name) {
+                result.push({ uri: file.uri, state: state });
+            }
+        }
+    }
+    return result;
+}
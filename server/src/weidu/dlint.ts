@@ -0,0 +1,244 @@
+/**
+ * WeiDU D checks that don't need WeiDU itself
+ *
+ * Unterminated strings, `CHAIN` without epilogue, duplicate state labels, `GOTO` to undefined
+ * states, unreachable states, and tra references missing from the tra file. Dialogs are often
+ * built from several D files, so states and references of other D files in the workspace count too.
+ */
+
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node";
+import { TraEntries } from "../translation";
+import { Dialog, DialogFile, dialogStates, parse, State, StateRef } from "./dialog";
+import { codeTokens, isWord, Token, tokenize, tokenRange } from "./lexer";
+import { displayText } from "./symbols";
+
+/** Other D files of the workspace which may contain dialog `name` */
+// eslint-disable-next-line no-unused-vars
+export type OtherDialogs = (name: string) => DialogFile[];
+
+function diagnostic(token: Token, message: string, severity: DiagnosticSeverity) {
+    const result: Diagnostic = {
+        severity: severity,
+        range: tokenRange(token),
+        message: message,
+        source: "BGforge MLS",
+    };
+    return result;
+}
+
+function stateKey(dialog: string, label: Token) {
+    return `${dialog}:${displayText(label)}`;
+}
+
+/** `~`, `"` and `~~~~~` strings running to the end of text, `%` without a pair */
+function checkStrings(tokens: Token[], text: string) {
+    const result: Diagnostic[] = [];
+    /** End of a `%` string spanning lines, tokens up to it are inside the string */
+    let skipUntil = 0;
+    for (const token of tokens) {
+        if (token.start < skipUntil) {
+            continue;
+        }
+        const value = token.value;
+        let quote = "";
+        if (token.kind == "string") {
+            quote = value.startsWith("~~~~~") ? "~~~~~" : value[0];
+            if (value.length >= quote.length * 2 && value.endsWith(quote)) {
+                continue;
+            }
+        } else if (token.kind == "word" && value.startsWith("%")) {
+            // the lexer only pairs `%` on the same line, D strings may span lines
+            const close = text.indexOf("%", token.start + 1);
+            if (close != -1) {
+                skipUntil = close + 1;
+                continue;
+            }
+            quote = "%";
+        } else {
+            continue;
+        }
+        const message = `Unterminated string, missing closing ${quote}.`;
+        result.push(diagnostic(token, message, DiagnosticSeverity.Error));
+    }
+    return result;
+}
+
+function checkChains(dialog: Dialog) {
+    const result: Diagnostic[] = [];
+    for (const state of dialog.states) {
+        if (isWord(state.start, "CHAIN") && state.transitions.length == 0) {
+            const message = "CHAIN without EXIT or END.";
+            result.push(diagnostic(state.start, message, DiagnosticSeverity.Error));
+        }
+    }
+    return result;
+}
+
+function checkLabels(dialog: Dialog) {
+    const result: Diagnostic[] = [];
+    const seen = new Set<string>();
+    for (const state of dialog.states) {
+        if (!state.label) {
+            continue;
+        }
+        const key = stateKey(state.dialog, state.label);
+        if (seen.has(key)) {
+            const message = `State ${displayText(state.label)} is already defined in ${state.dialog}.`;
+            result.push(diagnostic(state.label, message, DiagnosticSeverity.Error));
+        }
+        seen.add(key);
+    }
+    return result;
+}
+
+/** `GOTO` and `+` targets. Numeric labels are states of the original game dialog. */
+function checkGotos(uri: string, dialog: Dialog, others: OtherDialogs) {
+    const result: Diagnostic[] = [];
+    const labels = new Map<string, Set<string>>();
+    const dialogLabels = (name: string) => {
+        let found = labels.get(name);
+        if (!found) {
+            found = new Set();
+            const files = [{ uri: uri, dialog: dialog }, ...others(name)];
+            for (const x of dialogStates(name, files)) {
+                if (x.state.label) {
+                    found.add(displayText(x.state.label));
+                }
+            }
+            labels.set(name, found);
+        }
+        return found;
+    };
+    for (const ref of dialog.refs) {
+        if (ref.file || !ref.label) {
+            continue;
+        }
+        const label = displayText(ref.label);
+        if (/^\d+$/.test(label) || dialogLabels(ref.dialog).has(label)) {
+            continue;
+        }
+        const message = `State ${label} is not defined in ${ref.dialog}.`;
+        result.push(diagnostic(ref.label, message, DiagnosticSeverity.Error));
+    }
+    return result;
+}
+
+/** Has a trigger or a weight, so the game may start the dialog from it */
+function isEntry(state: State) {
+    if (state.weight) {
+        return true;
+    }
+    return state.trigger !== undefined && displayText(state.trigger).trim() != "";
+}
+
+/**
+ * States of dialogs created in this file that can't be reached from any entry state.
+ * States of appended dialogs may be reached from the original game dialog, so they aren't checked.
+ * Transitions in `EXTEND_TOP`, `INTERJECT` and the like, and references from other D files,
+ * are considered reachable.
+ */
+function checkReachable(dialog: Dialog, others: OtherDialogs) {
+    const created = new Set(
+        dialog.sections.filter((x) => isWord(x.keyword, "BEGIN")).map((x) => x.dialog)
+    );
+    const states = new Map<string, State>();
+    for (const state of dialog.states) {
+        if (state.label && created.has(state.dialog)) {
+            states.set(stateKey(state.dialog, state.label), state);
+        }
+    }
+    if (states.size == 0) {
+        return [];
+    }
+
+    const stateRefs = new Set<StateRef>();
+    for (const state of dialog.states) {
+        for (const transition of state.transitions) {
+            if (transition.next) {
+                stateRefs.add(transition.next);
+            }
+        }
+    }
+    const reached = new Set<string>();
+    const queue: string[] = [];
+    const reach = (key: string) => {
+        if (!reached.has(key)) {
+            reached.add(key);
+            queue.push(key);
+        }
+    };
+    for (const [key, state] of states) {
+        if (isEntry(state)) {
+            reach(key);
+        }
+    }
+    for (const ref of dialog.refs) {
+        if (ref.label && !stateRefs.has(ref)) {
+            reach(stateKey(ref.dialog, ref.label));
+        }
+    }
+    const visit = () => {
+        while (queue.length > 0) {
+            const state = states.get(queue.shift() as string);
+            for (const transition of state?.transitions || []) {
+                if (transition.next?.label) {
+                    reach(stateKey(transition.next.dialog, transition.next.label));
+                }
+            }
+        }
+    };
+    visit();
+
+    const unreached = () => [...states.keys()].filter((x) => !reached.has(x));
+    if (unreached().length == 0) {
+        return [];
+    }
+    // other files may lead to the states too, only look at them if needed
+    for (const name of created) {
+        for (const x of others(name)) {
+            for (const ref of x.dialog.refs) {
+                if (ref.label && ref.dialog == name) {
+                    reach(stateKey(ref.dialog, ref.label));
+                }
+            }
+        }
+    }
+    visit();
+
+    return unreached().map((key) => {
+        const state = states.get(key) as State;
+        const message = `State ${displayText(state.label as Token)} can't be reached from any entry state.`;
+        return diagnostic(state.label as Token, message, DiagnosticSeverity.Warning);
+    });
+}
+
+function checkTra(code: Token[], tra: TraEntries) {
+    const result: Diagnostic[] = [];
+    for (const token of code) {
+        if (token.kind == "word" && /^@\d+$/.test(token.value) && !tra.has(token.value.slice(1))) {
+            const message = `${token.value} is not defined in the tra file.`;
+            result.push(diagnostic(token, message, DiagnosticSeverity.Error));
+        }
+    }
+    return result;
+}
+
+/**
+ * @param others only called when states of other dialogs are needed
+ * @param tra entries of the tra file of the document, tra references aren't checked without it
+ */
+export function check(uri: string, text: string, others: OtherDialogs, tra?: TraEntries) {
+    const code = codeTokens(tokenize(text));
+    const dialog = parse(text);
+    const result = [
+        ...checkStrings(code, text),
+        ...checkChains(dialog),
+        ...checkLabels(dialog),
+        ...checkGotos(uri, dialog, others),
+        ...checkReachable(dialog, others),
+    ];
+    if (tra) {
+        result.push(...checkTra(code, tra));
+    }
+    return result;
+}
@@ -0,0 +1,206 @@
+/**
+ * WeiDU folding ranges
+ *
+ * Based on tokens rather than indentation, so that badly indented legacy code folds correctly.
+ * Sections without a closing keyword, such as TP2 components and D `BEGIN` dialogs,
+ * are folded up to the last code line before the next section.
+ */
+
+import { FoldingRange } from "vscode-languageserver/node";
+import * as folding from "../folding";
+import { codeTokens, isWord, Token, tokenize } from "./lexer";
+import { structure } from "./tp2";
+
+/** Last line of a token */
+function lastLine(token: Token) {
+    return token.line + token.value.split("\n").length - 1;
+}
+
+/** Last line of the code before token `index` */
+function lastLineBefore(tokens: Token[], index: number) {
+    return lastLine(tokens[index - 1]);
+}
+
+/** Components, `BEGIN..END` blocks, function and macro definitions, function calls */
+export function tp2(text: string) {
+    const tokens = tokenize(text);
+    const code = codeTokens(tokens);
+    const ranges: FoldingRange[] = [];
+    const { blocks, components } = structure(code);
+
+    for (const block of blocks) {
+        if (block.close) {
+            // fold from the header, if `BEGIN` is on a later line
+            const start = block.header ? block.header.line : block.open.line;
+            folding.addBlock(ranges, start, block.close.line);
+        }
+    }
+    for (const component of components) {
+        folding.addRegion(ranges, code[component.start].line, lastLine(code[component.end]));
+    }
+
+    ranges.push(...folding.comments(tokens));
+    return ranges;
+}
+
+/** `IF..END` script blocks */
+export function baf(text: string) {
+    const tokens = tokenize(text);
+    const ranges: FoldingRange[] = [];
+    let start: number | undefined;
+
+    for (const token of codeTokens(tokens)) {
+        if (isWord(token, "IF") && start === undefined) {
+            start = token.line;
+        } else if (isWord(token, "END") && start !== undefined) {
+            folding.addBlock(ranges, start, token.line);
+            start = undefined;
+        }
+    }
+
+    ranges.push(...folding.comments(tokens));
+    return ranges;
+}
+
+/** Top level D actions, they end the `BEGIN` dialog section */
+const dActions = new Set([
+    "BEGIN",
+    "APPEND",
+    "APPEND_EARLY",
+    "CHAIN",
+    "INTERJECT",
+    "INTERJECT_COPY_TRANS",
+    "INTERJECT_COPY_TRANS2",
+    "INTERJECT_COPY_TRANS3",
+    "INTERJECT_COPY_TRANS4",
+    "EXTEND_TOP",
+    "EXTEND_BOTTOM",
+    "REPLACE",
+    "ALTER_TRANS",
+    "ADD_STATE_TRIGGER",
+    "ADD_TRANS_TRIGGER",
+    "ADD_TRANS_ACTION",
+    "REPLACE_TRANS_ACTION",
+    "REPLACE_TRANS_TRIGGER",
+    "REPLACE_ACTION_TEXT",
+    "REPLACE_ACTION_TEXT_REGEXP",
+    "REPLACE_ACTION_TEXT_PROCESS",
+    "REPLACE_ACTION_TEXT_PROCESS_REGEXP",
+    "R_A_T_P_R",
+    "REPLACE_TRIGGER_TEXT",
+    "REPLACE_TRIGGER_TEXT_REGEXP",
+    "REPLACE_STATE_TRIGGER",
+    "REPLACE_SAY",
+    "SET_WEIGHT",
+]);
+
+/** D actions containing states, closed by `END` */
+const dStateLists = new Set(["APPEND", "APPEND_EARLY", "REPLACE"]);
+
+/** D actions containing chain text */
+const dChains = new Set([
+    "CHAIN",
+    "INTERJECT",
+    "INTERJECT_COPY_TRANS",
+    "INTERJECT_COPY_TRANS2",
+    "INTERJECT_COPY_TRANS3",
+    "INTERJECT_COPY_TRANS4",
+]);
+
+/** D actions containing transitions, closed by `END` */
+const dTransitionLists = new Set(["EXTEND_TOP", "EXTEND_BOTTOM"]);
+
+/** Chain text ends with one of these */
+const dChainEnds = new Set(["END", "EXIT", "EXTERN", "COPY_TRANS", "COPY_TRANS_LATE"]);
+
+/** Actions with lists in `BEGIN..END`, such as `ALTER_TRANS` */
+const dBlockActions = new Set([
+    "ALTER_TRANS",
+    "ADD_TRANS_ACTION",
+    "REPLACE_TRANS_ACTION",
+    "REPLACE_TRANS_TRIGGER",
+]);
+
+interface DFrame {
+    kind: "states" | "transitions" | "chain" | "state" | "block";
+    start: number;
+}
+
+/** `BEGIN` dialogs, `APPEND`, `CHAIN` and similar actions, states */
+export function d(text: string) {
+    const tokens = tokenize(text);
+    const code = codeTokens(tokens);
+    const ranges: FoldingRange[] = [];
+    const frames: DFrame[] = [];
+    /** Start of the current `BEGIN` section */
+    let dialog: number | undefined;
+    /** Current top level action */
+    let action = "";
+
+    const close = (line: number) => {
+        const frame = frames.pop();
+        if (frame) {
+            folding.addBlock(ranges, frame.start, line);
+        }
+    };
+
+    code.forEach((token, i) => {
+        const top = frames[frames.length - 1];
+        if (token.kind != "word") {
+            return;
+        }
+        const word = token.value;
+
+        if (!top) {
+            if (dActions.has(word) && !(word == "BEGIN" && dBlockActions.has(action))) {
+                if (dialog !== undefined) {
+                    folding.addRegion(ranges, dialog, lastLineBefore(code, i));
+                    dialog = undefined;
+                }
+                action = word;
+                if (word == "BEGIN") {
+                    dialog = token.line;
+                } else if (dStateLists.has(word)) {
+                    frames.push({ kind: "states", start: token.line });
+                } else if (dTransitionLists.has(word)) {
+                    frames.push({ kind: "transitions", start: token.line });
+                } else if (dChains.has(word)) {
+                    frames.push({ kind: "chain", start: token.line });
+                }
+            } else if (word == "BEGIN") {
+                frames.push({ kind: "block", start: token.line });
+            } else if (word == "IF" && action == "BEGIN") {
+                frames.push({ kind: "state", start: token.line });
+            }
+            return;
+        }
+
+        switch (top.kind) {
+            case "states":
+                if (word == "IF") {
+                    frames.push({ kind: "state", start: token.line });
+                } else if (word == "END") {
+                    close(token.line);
+                }
+                break;
+            case "chain":
+                if (dChainEnds.has(word)) {
+                    close(token.line);
+                }
+                break;
+            case "transitions":
+            case "state":
+            case "block":
+                if (word == "END") {
+                    close(token.line);
+                }
+                break;
+        }
+    });
+    if (dialog !== undefined) {
+        folding.addRegion(ranges, dialog, lastLineBefore(code, code.length));
+    }
+
+    ranges.push(...folding.comments(tokens));
+    return ranges;
+}
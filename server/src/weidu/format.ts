@@ -0,0 +1,357 @@
+/**
+ * WeiDU TP2 formatter
+ *
+ * Token based, same as the SSL one: lines are re-indented according to block nesting,
+ * but otherwise kept as they are. Lines inside multiline strings and comments are never changed.
+ * Patches of `COPY` and similar actions are indented one level deeper than the action,
+ * up to a `BUT_ONLY`-like condition or the next action.
+ */
+
+import { LineRange } from "../format";
+import { launchers, sections } from "./calls";
+import { isWord, Token, tokenize } from "./lexer";
+import { blockKeywords, definitionRegex, endKeywords, isComponentName } from "./tp2";
+
+export interface FormatOptions {
+    /** One level of indentation: tab or spaces */
+    indent: string;
+}
+
+/** Actions followed by a patch list */
+const patchActions = new Set([
+    "COPY",
+    "COPY_EXISTING",
+    "COPY_EXISTING_REGEXP",
+    "COPY_ALL_GAM_FILES",
+    "COPY_RANDOM",
+    "CREATE",
+    "COMPILE",
+    "EXTEND_TOP",
+    "EXTEND_BOTTOM",
+    "EXTEND_TOP_REGEXP",
+    "EXTEND_BOTTOM_REGEXP",
+]);
+
+/** Conditions ending a patch list */
+const whenKeywords = new Set([
+    "BUT_ONLY",
+    "BUT_ONLY_IF_IT_CHANGES",
+    "IF",
+    "IF_EXISTS",
+    "IF_SIZE_IS",
+    "I_S_I",
+    "UNLESS",
+]);
+
+/** No patch starts with these */
+const actionPrefix = /^(ACTION_|OUTER_|AT_|COPY|EXTEND_|ALTER_TLK|STRING_SET|LAUNCH_ACTION_)/;
+/** Actions not covered by `actionPrefix` and `definitionRegex` */
+const actions = new Set([
+    "ABORT",
+    "ADD_AREA_TYPE",
+    "ADD_JOURNAL",
+    "ADD_KIT",
+    "ADD_MUSIC",
+    "ADD_PROJECTILE",
+    "ADD_SCHOOL",
+    "ADD_SECTYPE",
+    "ADD_SPELL",
+    "APPEND",
+    "APPEND_COL",
+    "APPEND_COL_OUTER",
+    "APPEND_OUTER",
+    "CLEAR_ARRAYS",
+    "CLEAR_CODES",
+    "CLEAR_EVERYTHING",
+    "CLEAR_IDS_MAP",
+    "CLEAR_INLINED",
+    "CLEAR_MEMORY",
+    "COMPILE",
+    "CREATE",
+    "DECOMPRESS_BIFF",
+    "DELETE",
+    "DISABLE_FROM_KEY",
+    "FAIL",
+    "FORBID_FILE",
+    "GET_DIRECTORY_ARRAY",
+    "GET_FILE_ARRAY",
+    "GET_RESOURCE_ARRAY",
+    "INCLUDE",
+    "LAF",
+    "LAM",
+    "LOAD_TRA",
+    "LOG",
+    "MAKE_BIFF",
+    "MKDIR",
+    "MOVE",
+    "PRINT",
+    "RANDOM_SEED",
+    "REGISTER_UNINSTALL",
+    "REINCLUDE",
+    "REQUIRE_FILE",
+    "SILENT",
+    "UNINSTALL",
+    "VERBOSE",
+    "WARN",
+    "WITH_SCOPE",
+    "WITH_TRA",
+]);
+
+/** `ACTION_MATCH` and `ACTION_TRY` have `WITH` and `DEFAULT` sections */
+const matchKeywords = new Set(["ACTION_MATCH", "PATCH_MATCH", "ACTION_TRY", "PATCH_TRY"]);
+
+function isAction(token: Token | undefined) {
+    if (token?.kind != "word") {
+        return false;
+    }
+    const word = token.value;
+    return actions.has(word) || actionPrefix.test(word) || definitionRegex.test(word);
+}
+
+function isWhen(token: Token | undefined) {
+    return token?.kind == "word" && whenKeywords.has(token.value);
+}
+
+interface LineInfo {
+    /** Tokens starting on this line */
+    tokens: Token[];
+    /** Line starts inside a multiline string or comment */
+    continued?: Token;
+    /** Line ends inside a multiline string or comment */
+    open: boolean;
+}
+
+function lineInfo(lines: string[]) {
+    const info: LineInfo[] = lines.map(() => ({ tokens: [], open: false }));
+    for (const token of tokenize(lines.join("\n"))) {
+        info[token.line].tokens.push(token);
+        const lastLine = token.line + token.value.split("\n").length - 1;
+        if (lastLine > token.line) {
+            info[token.line].open = true;
+            for (let i = token.line + 1; i <= lastLine; i++) {
+                info[i].continued = token;
+                info[i].open = i < lastLine;
+            }
+        }
+    }
+    return info;
+}
+
+interface Frame {
+    /** `BEGIN..END`, function call, or `ACTION_MATCH`-like construct */
+    kind: "block" | "call" | "match";
+    indent: number;
+    /** Inside the patch list of a `COPY`-like action */
+    patches: boolean;
+    /** After `DEFAULT` of a match, statements get extra indentation */
+    defaultSeen: boolean;
+}
+
+/** Keyword waiting for its `BEGIN`, such as `ACTION_IF` */
+interface Header {
+    indent: number;
+    /** Function definition, with parameter sections */
+    definition: boolean;
+}
+
+/** Parameters of `INT_VAR`, `STR_VAR`, etc. on the following lines */
+interface Section {
+    /** Column of the first parameter, if it's on the same line as the keyword */
+    align?: { level: number; spaces: number };
+}
+
+/** Indentation of a line: levels, then spaces for alignment */
+interface Indent {
+    level: number;
+    spaces: number;
+}
+
+/** Indentation of a line in a function call or a definition header */
+function paramIndent(base: number, first: Token, section?: Section): Indent {
+    if (sections.has(first.value) || !section) {
+        return { level: base + 1, spaces: 0 };
+    }
+    if (section.align) {
+        return section.align;
+    }
+    return { level: base + 2, spaces: 0 };
+}
+
+/** Section keyword starts, parameters on the same line are aligned with */
+function startSection(code: Token[], index: number, level: number, lineStart: number) {
+    const next = code[index + 1];
+    const section: Section = {};
+    if (
+        next &&
+        next.line == code[index].line &&
+        !sections.has(next.value) &&
+        !isWord(next, "BEGIN") &&
+        !isWord(next, "END")
+    ) {
+        section.align = { level: level, spaces: next.character - lineStart };
+    }
+    return section;
+}
+
+/**
+ * Indentation of every line.
+ * @returns undefined for lines which are kept as is
+ */
+function lineIndents(info: LineInfo[]) {
+    const indents: (Indent | undefined)[] = [];
+    /** Top level, outside of any block */
+    const root: Frame = { kind: "block", indent: -1, patches: false, defaultSeen: false };
+    const frames: Frame[] = [];
+    let header: Header | undefined;
+    let section: Section | undefined;
+    /** Code token following each one, across lines */
+    const nextCode = new Map<Token, Token>();
+    const allCode = info.flatMap((x) => x.tokens).filter((x) => x.kind != "comment");
+    allCode.forEach((token, i) => nextCode.set(token, allCode[i + 1]));
+    /** `BEGIN` of a new component, rather than of a block without a known header */
+    const startsComponent = (token: Token) =>
+        !header && frames.length == 0 && isComponentName(nextCode.get(token));
+
+    for (const line of info) {
+        const first = line.tokens[0];
+        if (line.continued || !first) {
+            indents.push(undefined);
+            continue;
+        }
+
+        const top = frames[frames.length - 1] || root;
+        let base = top.indent + 1;
+        if (top.defaultSeen) {
+            base++;
+        }
+        if (top.patches && !isAction(first) && !isWhen(first)) {
+            base++;
+        }
+
+        let indent: Indent;
+        if (isWord(first, "END")) {
+            indent = { level: Math.max(top.indent, 0), spaces: 0 };
+        } else if (isWord(first, "BEGIN") && header) {
+            indent = { level: header.indent, spaces: 0 };
+        } else if (isWord(first, "BEGIN") && startsComponent(first)) {
+            indent = { level: 0, spaces: 0 };
+        } else if (top.kind == "match" && isWord(first, "WITH")) {
+            indent = { level: top.indent, spaces: 0 };
+        } else if (top.kind == "match" && isWord(first, "DEFAULT")) {
+            indent = { level: top.indent + 1, spaces: 0 };
+        } else if (header?.definition) {
+            indent = paramIndent(header.indent, first, section);
+        } else if (header) {
+            indent = { level: header.indent + 1, spaces: 0 };
+        } else if (top.kind == "call") {
+            indent = paramIndent(top.indent, first, section);
+        } else {
+            indent = { level: base, spaces: 0 };
+        }
+        indents.push(indent);
+
+        const code = line.tokens.filter((x) => x.kind != "comment");
+        code.forEach((token, i) => {
+            const current = frames[frames.length - 1] || root;
+            if (token.kind != "word") {
+                return;
+            }
+            const word = token.value;
+
+            if (sections.has(word) && (header?.definition || current.kind == "call")) {
+                section = startSection(code, i, indent.level, first.character);
+                return;
+            }
+            if (isAction(token)) {
+                current.patches = patchActions.has(word);
+            } else if (isWhen(token)) {
+                current.patches = false;
+            }
+
+            if (word == "BEGIN") {
+                section = undefined;
+                if (startsComponent(token)) {
+                    root.patches = false;
+                    return;
+                }
+                frames.push({
+                    kind: "block",
+                    indent: header ? header.indent : indent.level,
+                    patches: false,
+                    defaultSeen: false,
+                });
+                header = undefined;
+            } else if (word == "END") {
+                frames.pop();
+                header = undefined;
+                section = undefined;
+            } else if (endKeywords.has(word)) {
+                let kind: Frame["kind"] = "block";
+                if (matchKeywords.has(word)) {
+                    kind = "match";
+                } else if (launchers.has(word)) {
+                    kind = "call";
+                }
+                frames.push({
+                    kind: kind,
+                    indent: indent.level,
+                    patches: false,
+                    defaultSeen: false,
+                });
+                section = undefined;
+            } else if (current.kind == "match" && (word == "WITH" || word == "DEFAULT")) {
+                current.patches = false;
+                current.defaultSeen = word == "DEFAULT";
+            } else if (blockKeywords.has(word) || definitionRegex.test(word)) {
+                if (!header) {
+                    header = { indent: indent.level, definition: definitionRegex.test(word) };
+                    section = undefined;
+                }
+            }
+        });
+    }
+    return indents;
+}
+
+function indentLines(lines: string[], indent: string) {
+    const info = lineInfo(lines);
+    const indents = lineIndents(info);
+    /** Indentation of the line where the current multiline comment started */
+    let commentIndent = "";
+    return lines.map((line, i) => {
+        const lineIndent = indents[i];
+        const continued = info[i].continued;
+        if (continued) {
+            const trimmed = line.trim();
+            // align jsdoc style ` * ` lines, leave the rest as is
+            if (continued.kind == "comment" && trimmed.startsWith("*")) {
+                return `${commentIndent} ${trimmed}`;
+            }
+            return line;
+        }
+        if (lineIndent === undefined) {
+            return line.trim() == "" ? "" : line;
+        }
+        const prefix = indent.repeat(lineIndent.level) + " ".repeat(lineIndent.spaces);
+        commentIndent = prefix;
+        // trailing whitespace of an unterminated line belongs to a string
+        return prefix + (info[i].open ? line.trimStart() : line.trim());
+    });
+}
+
+/**
+ * Format a TP2 file.
+ * @param range lines to format, whole text by default
+ * @returns formatted lines of the range, or undefined if nothing changed
+ */
+export function format(text: string, options: FormatOptions, range?: LineRange) {
+    const lines = text.split(/\r?\n/);
+    const lineRange = range || { start: 0, end: lines.length - 1 };
+    const indented = indentLines(lines, options.indent);
+    const result = indented.slice(lineRange.start, lineRange.end + 1);
+    const original = lines.slice(lineRange.start, lineRange.end + 1);
+    if (result.join("\n") == original.join("\n")) {
+        return;
+    }
+    return result;
+}
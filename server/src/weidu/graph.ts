@@ -0,0 +1,157 @@
+/**
+ * WeiDU D dialog graph
+ *
+ * States are nodes, grouped by dialog, transitions are edges with reply text and trigger.
+ * States of other files are looked up in the workspace, so that `EXTERN` targets can be opened too.
+ */
+
+import { Data as PreviewData, Edge, Node } from "../preview";
+import { TraEntries } from "../translation";
+import { parse, State, Transition } from "./dialog";
+import { Token } from "./lexer";
+import { findStates } from "./states";
+import { displayText } from "./symbols";
+
+/** Long texts make huge nodes */
+const maxTextLength = 120;
+
+function shorten(text: string) {
+    const result = text.replace(/\s+/g, " ").trim();
+    if (result.length <= maxTextLength) {
+        return result;
+    }
+    return `${result.slice(0, maxTextLength - 3)}...`;
+}
+
+function nodeId(dialog: string, label: string) {
+    return `${dialog}:${label}`;
+}
+
+/** What the state says. Chains have several speakers. */
+function sayText(state: State, tra?: TraEntries) {
+    return state.say
+        .map((x) => {
+            const text = shorten(displayText(x.text, tra));
+            return x.dialog == state.dialog ? text : `${x.dialog}: ${text}`;
+        })
+        .join("\n");
+}
+
+function stateNode(uri: string, state: State, tra?: TraEntries, external = false) {
+    const label = state.label ? displayText(state.label) : "";
+    const token: Token = state.label || state.start;
+    const node: Node = {
+        data: {
+            id: nodeId(state.dialog, label),
+            label: `${label}\n${sayText(state, tra)}`,
+            location: { uri: uri, line: token.line, character: token.character },
+        },
+    };
+    if (external) {
+        node.data.kind = "external";
+    }
+    return node;
+}
+
+/** Reply and trigger of a transition */
+function edgeLabel(reply?: Token, trigger?: Token, tra?: TraEntries) {
+    const lines: string[] = [];
+    if (reply) {
+        lines.push(shorten(displayText(reply, tra)));
+    }
+    const condition = trigger ? shorten(displayText(trigger)) : "";
+    if (condition) {
+        lines.push(`[${condition}]`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Dialog graph for preview
+ * @param tra entries of the tra file of the document, to show texts
+ */
+export function graph(uri: string, text: string, workspaceRoot: string, tra?: TraEntries) {
+    const dialog = parse(text);
+    if (dialog.states.length == 0 && dialog.extensions.length == 0) {
+        return;
+    }
+    const nodes: Node[] = [];
+    const edges: Edge[] = [];
+    const ids = new Set<string>();
+    const addNode = (node: Node) => {
+        if (!ids.has(node.data.id)) {
+            ids.add(node.data.id);
+            nodes.push(node);
+        }
+    };
+    const groupId = (name: string) => `dialog ${name}`;
+
+    for (const state of dialog.states) {
+        addNode({ data: { id: groupId(state.dialog), label: state.dialog, kind: "group" } });
+        const node = stateNode(uri, state, tra);
+        node.data.parent = groupId(state.dialog);
+        addNode(node);
+    }
+
+    /** States of other files, by dialog */
+    const workspaceStates = new Map<string, ReturnType<typeof findStates>>();
+    const addExternal = (name: string, label: string) => {
+        const id = nodeId(name, label);
+        if (ids.has(id)) {
+            return id;
+        }
+        if (!workspaceStates.has(name)) {
+            workspaceStates.set(name, findStates(uri, dialog, name, workspaceRoot));
+        }
+        const found = workspaceStates
+            .get(name)
+            ?.find((x) => x.state.label && displayText(x.state.label) == label);
+        const node: Node = found
+            ? stateNode(found.uri, found.state, undefined, true)
+            : { data: { id: id, label: `${name}: ${label}`, kind: "external" } };
+        if (ids.has(groupId(name))) {
+            node.data.parent = groupId(name);
+        }
+        addNode(node);
+        return id;
+    };
+
+    const addEdges = (source: string, transitions: Transition[]) => {
+        for (const transition of transitions) {
+            const next = transition.next;
+            if (!next?.label) {
+                continue;
+            }
+            const target = addExternal(next.dialog, displayText(next.label));
+            const edge: Edge = {
+                data: { id: `${source}-${target}-${edges.length}`, source: source, target: target },
+            };
+            const label = edgeLabel(transition.reply, transition.trigger, tra);
+            if (label) {
+                edge.data.label = label;
+            }
+            if (next.keyword.value.startsWith("COPY_TRANS")) {
+                edge.data.kind = "copy";
+            }
+            edges.push(edge);
+        }
+    };
+
+    for (const state of dialog.states) {
+        addEdges(
+            nodeId(state.dialog, state.label ? displayText(state.label) : ""),
+            state.transitions
+        );
+    }
+    // transitions added to other states, possibly in other files
+    for (const extension of dialog.extensions) {
+        for (const state of extension.states) {
+            if (state.label) {
+                const source = addExternal(state.dialog, displayText(state.label));
+                addEdges(source, extension.transitions);
+            }
+        }
+    }
+    const result: PreviewData = { nodes: nodes, edges: edges };
+    return result;
+}
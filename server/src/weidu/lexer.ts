@@ -0,0 +1,183 @@
+/**
+ * WeiDU Lexer
+ *
+ * Splits TP2, BAF and D source into tokens. WeiDU syntax is loose: anything that is not a string,
+ * a comment or punctuation is a word, including keywords, numbers, tra references and unquoted
+ * file names. Comments are kept, so that consumers can work with the original text positions.
+ */
+
+import { Position, Range } from "vscode-languageserver/node";
+
+export type TokenKind = "word" | "string" | "comment" | "operator";
+
+export interface Token {
+    kind: TokenKind;
+    /** Original text, including quotes and comment delimiters */
+    value: string;
+    start: number;
+    end: number;
+    line: number;
+    character: number;
+}
+
+/** Single char tokens, words are broken on them */
+const punctuation = new Set(["(", ")", "[", "]", "{", "}", ",", ";"]);
+/** `=>` is used in associative arrays, `==` in CHAIN, the rest in values */
+const operators = ["==", "=>", ">=", "<=", "!=", "="];
+/** Characters that end a word, operators end it too */
+const wordEnd = /[\s"~%()[\]{},;=]/;
+
+/**
+ * Tokenize WeiDU text. Never throws: unterminated comments and strings run to the end of text,
+ * unpaired `%` is a part of a word.
+ */
+export function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    let line = 0;
+    let lineStart = 0;
+
+    function push(kind: TokenKind, end: number) {
+        tokens.push({
+            kind: kind,
+            value: text.slice(pos, end),
+            start: pos,
+            end: end,
+            line: line,
+            character: pos - lineStart,
+        });
+        for (let i = pos; i < end; i++) {
+            if (text[i] == "\n") {
+                line++;
+                lineStart = i + 1;
+            }
+        }
+        pos = end;
+    }
+
+    /** Position after `close`, or the end of text */
+    function closing(close: string, from: number) {
+        const index = text.indexOf(close, from);
+        return index == -1 ? text.length : index + close.length;
+    }
+
+    while (pos < text.length) {
+        const c = text[pos];
+        const next = text[pos + 1];
+
+        if (c == "\n") {
+            line++;
+            lineStart = pos + 1;
+            pos++;
+            continue;
+        }
+        if (/\s/.test(c)) {
+            pos++;
+            continue;
+        }
+
+        if (c == "/" && next == "/") {
+            const eol = text.indexOf("\n", pos);
+            push("comment", eol == -1 ? text.length : eol);
+            continue;
+        }
+        if (c == "/" && next == "*") {
+            push("comment", closing("*/", pos + 2));
+            continue;
+        }
+        if (text.startsWith("~~~~~", pos)) {
+            push("string", closing("~~~~~", pos + 5));
+            continue;
+        }
+        if (c == "~" || c == '"') {
+            push("string", closing(c, pos + 1));
+            continue;
+        }
+        if (c == "%") {
+            const close = text.indexOf("%", pos + 1);
+            const eol = text.indexOf("\n", pos);
+            if (close != -1 && (eol == -1 || close < eol)) {
+                push("string", close + 1);
+                continue;
+            }
+        }
+
+        if (punctuation.has(c)) {
+            push("operator", pos + 1);
+            continue;
+        }
+        const op = operators.find((x) => text.startsWith(x, pos));
+        if (op) {
+            push("operator", pos + op.length);
+            continue;
+        }
+
+        let end = pos + 1;
+        while (
+            end < text.length &&
+            !wordEnd.test(text[end]) &&
+            !operators.some((x) => text.startsWith(x, end)) &&
+            !text.startsWith("//", end) &&
+            !text.startsWith("/*", end)
+        ) {
+            end++;
+        }
+        push("word", end);
+    }
+    return tokens;
+}
+
+/** Comments skipped */
+export function codeTokens(tokens: Token[]) {
+    return tokens.filter((x) => x.kind != "comment");
+}
+
+/** WeiDU keywords are case sensitive */
+export function isWord(token: Token | undefined, word: string) {
+    return token !== undefined && token.kind == "word" && token.value == word;
+}
+
+export function tokenStart(token: Token): Position {
+    return { line: token.line, character: token.character };
+}
+
+export function tokenEnd(token: Token): Position {
+    const lines = token.value.split("\n");
+    if (lines.length == 1) {
+        return { line: token.line, character: token.character + token.value.length };
+    }
+    return { line: token.line + lines.length - 1, character: lines[lines.length - 1].length };
+}
+
+export function tokenRange(token: Token): Range {
+    return { start: tokenStart(token), end: tokenEnd(token) };
+}
+
+/** Range of a part of token value, such as `%var%` in a string */
+export function tokenSubRange(token: Token, index: number, length: number): Range {
+    const position = (offset: number): Position => {
+        const lines = token.value.slice(0, offset).split("\n");
+        if (lines.length == 1) {
+            return { line: token.line, character: token.character + offset };
+        }
+        return { line: token.line + lines.length - 1, character: lines[lines.length - 1].length };
+    };
+    return { start: position(index), end: position(index + length) };
+}
+
+export function rangeContains(range: Range, position: Position) {
+    if (position.line < range.start.line || position.line > range.end.line) {
+        return false;
+    }
+    if (position.line == range.start.line && position.character < range.start.character) {
+        return false;
+    }
+    if (position.line == range.end.line && position.character > range.end.character) {
+        return false;
+    }
+    return true;
+}
+
+export function containsPosition(token: Token, position: Position) {
+    return rangeContains(tokenRange(token), position);
+}
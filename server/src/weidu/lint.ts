@@ -0,0 +1,145 @@
+/**
+ * WeiDU TP2 checks that don't need WeiDU itself
+ *
+ * Unbalanced `BEGIN`/`END`, calls to undefined functions, functions launched in the wrong
+ * context, unknown parameters, and component dependencies. Only functions defined in the workspace are known
+ * in detail, builtin ones are only checked for existence. Workspace functions come from `.tph`
+ * headers, so undefined calls aren't reported in files including `.tpa` and `.tpp` files.
+ */
+
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node";
+import * as hover from "../hover";
+import { CallTokens, findCalls, Launched, launchers } from "./calls";
+import * as components from "./components";
+import { codeTokens, Token, tokenize, tokenRange } from "./lexer";
+import { Param } from "./params";
+import { structure } from "./tp2";
+
+export interface FunctionInfo {
+    /** Dimorphic functions can be launched both as actions and as patches */
+    context: Launched["context"] | "dimorphic";
+    dtype: Launched["dtype"];
+    params: Param[];
+}
+
+const includeKeywords = new Set([
+    "INCLUDE",
+    "ACTION_INCLUDE",
+    "PATCH_INCLUDE",
+    "REINCLUDE",
+    "ACTION_REINCLUDE",
+    "PATCH_REINCLUDE",
+]);
+const includeModifiers = new Set(["EVALUATE_BUFFER"]);
+
+/** Includes files other than `.tph`. Paths may be unquoted, but only the first one. */
+function hasUnknownIncludes(code: Token[]) {
+    for (let i = 0; i < code.length; i++) {
+        if (!includeKeywords.has(code[i].value)) {
+            continue;
+        }
+        let j = i + 1;
+        while (includeModifiers.has(code[j]?.value)) {
+            j++;
+        }
+        for (let first = true; code[j] && (first || code[j].kind == "string"); j++) {
+            if (!/\.tph[~"]*$/i.test(code[j].value)) {
+                return true;
+            }
+            first = false;
+        }
+    }
+    return false;
+}
+
+function diagnostic(token: Token, message: string, severity: DiagnosticSeverity) {
+    const result: Diagnostic = {
+        severity: severity,
+        range: tokenRange(token),
+        message: message,
+        source: "BGforge MLS",
+    };
+    return result;
+}
+
+function checkBlocks(code: Token[]) {
+    const result: Diagnostic[] = [];
+    const { blocks, unmatched } = structure(code);
+    for (const block of blocks) {
+        if (!block.close) {
+            const message = `${block.open.value} without matching END.`;
+            result.push(diagnostic(block.open, message, DiagnosticSeverity.Error));
+        }
+    }
+    for (const token of unmatched) {
+        result.push(diagnostic(token, "END without matching BEGIN.", DiagnosticSeverity.Error));
+    }
+    return result;
+}
+
+function checkArgs(call: CallTokens, info: FunctionInfo) {
+    const result: Diagnostic[] = [];
+    const name = call.name.value;
+    for (const arg of call.args) {
+        const param = info.params.find((x) => x.name == arg.name.value);
+        if (param?.section == arg.section) {
+            continue;
+        }
+        const message = param
+            ? `${arg.name.value} is a ${param.section} parameter of ${name}, not ${arg.section}.`
+            : `Unknown parameter ${arg.name.value} of ${name}.`;
+        result.push(diagnostic(arg.name, message, DiagnosticSeverity.Warning));
+    }
+    return result;
+}
+
+/** @param complete all functions the file may call are known */
+function checkCall(
+    call: CallTokens,
+    functions: Map<string, FunctionInfo>,
+    builtins: hover.HoverMap,
+    complete: boolean
+) {
+    const name = call.name.value;
+    const launched = launchers.get(call.launcher.value) as Launched;
+    const info = functions.get(name);
+    if (!info) {
+        if (builtins.has(name) || !complete) {
+            return [];
+        }
+        const kind = launched.dtype == "function" ? "Function" : "Macro";
+        const message = `${kind} ${name} is not defined.`;
+        return [diagnostic(call.name, message, DiagnosticSeverity.Warning)];
+    }
+    const context = info.context == "dimorphic" || info.context == launched.context;
+    if (!context || info.dtype != launched.dtype) {
+        const article = info.context == "action" ? "an" : "a";
+        const message = `${name} is ${article} ${info.context} ${info.dtype}, it can't be launched with ${call.launcher.value}.`;
+        return [diagnostic(call.name, message, DiagnosticSeverity.Warning)];
+    }
+    if (info.dtype == "function") {
+        return checkArgs(call, info);
+    }
+    return [];
+}
+
+/**
+ * @param uri the mod name for component references comes from the file name
+ * @param functions functions and macros defined in the workspace and the file itself
+ * @param builtins static hovers, any name there is considered defined
+ */
+export function check(
+    uri: string,
+    text: string,
+    functions: Map<string, FunctionInfo>,
+    builtins: hover.HoverMap
+) {
+    const code = codeTokens(tokenize(text));
+    const result = checkBlocks(code);
+    const complete = !hasUnknownIncludes(code);
+    for (const call of findCalls(code)) {
+        result.push(...checkCall(call, functions, builtins, complete));
+    }
+    result.push(...components.check(code, components.modName(uri)));
+    return result;
+}
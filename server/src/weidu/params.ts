@@ -0,0 +1,122 @@
+/**
+ * WeiDU function parameters
+ *
+ * Declared in the definition header, `DEFINE_ACTION_FUNCTION name INT_VAR a = 1 RET b BEGIN`.
+ * Jsdoc adds types and descriptions, and may document parameters the header doesn't have.
+ */
+
+import * as jsdoc from "../jsdoc";
+import { Section } from "../signature";
+import { sections } from "./calls";
+import { codeTokens, Token, tokenize } from "./lexer";
+import { functionDefinitions } from "./tp2";
+
+export interface Param {
+    section: Section;
+    name: string;
+    /** Default value as written, including quotes */
+    default?: string;
+    type?: string;
+    description?: string;
+}
+
+/** Section of a jsdoc argument, by type. Types from IElib https://ielib.bgforge.net/types/ */
+export function argSection(arg: jsdoc.Arg): Section | undefined {
+    switch (arg.type) {
+        case "bool":
+        case "int":
+            return "INT_VAR";
+        case "ids":
+        case "resref":
+        case "filename":
+        case "string":
+            return "STR_VAR";
+    }
+}
+
+/**
+ * Parameter names in a definition header, with their indices in code tokens
+ * @param nameIndex index of the function name in code tokens
+ */
+export function headerParamTokens(code: Token[], nameIndex: number) {
+    const result: { section: Section; token: Token; index: number }[] = [];
+    let section: Section | undefined;
+    for (let i = nameIndex + 1; i < code.length; i++) {
+        const token = code[i];
+        if (token.kind == "word" && (token.value == "BEGIN" || token.value == "END")) {
+            break;
+        }
+        if (token.kind == "word" && sections.has(token.value)) {
+            section = token.value as Section;
+            continue;
+        }
+        // skip `=` and default values
+        if (!section || token.value == "=" || code[i - 1].value == "=") {
+            continue;
+        }
+        result.push({ section: section, token: token, index: i });
+    }
+    return result;
+}
+
+/** @param nameIndex index of the function name in code tokens */
+export function headerParams(code: Token[], nameIndex: number) {
+    return headerParamTokens(code, nameIndex).map((x) => {
+        const param: Param = { section: x.section, name: x.token.value };
+        if (code[x.index + 1]?.value == "=" && code[x.index + 2]) {
+            param.default = code[x.index + 2].value;
+        }
+        return param;
+    });
+}
+
+function mergeJsdoc(params: Param[], jsd: jsdoc.JSdoc) {
+    for (const arg of jsd.args) {
+        const param = params.find((x) => x.name == arg.name);
+        if (param) {
+            param.type = arg.type;
+            param.description = arg.description;
+            continue;
+        }
+        const section = argSection(arg);
+        if (section) {
+            params.push({
+                section: section,
+                name: arg.name,
+                default: arg.default,
+                type: arg.type,
+                description: arg.description,
+            });
+        }
+    }
+    const ret = jsd.ret;
+    if (!ret?.name) {
+        return;
+    }
+    const param = params.find((x) => x.name == ret.name);
+    if (param) {
+        param.type = ret.type;
+    } else {
+        params.push({ section: "RET", name: ret.name, type: ret.type });
+    }
+}
+
+/** Parameters of all functions and macros defined in `text`, by name */
+export function fileParams(text: string) {
+    const tokens = tokenize(text);
+    const code = codeTokens(tokens);
+    const result = new Map<string, Param[]>();
+    for (const definition of functionDefinitions(tokens)) {
+        const params = headerParams(code, definition.nameIndex);
+        if (definition.doc) {
+            mergeJsdoc(params, jsdoc.parse(definition.doc.value));
+        }
+        result.set(definition.name.value, params);
+    }
+    return result;
+}
+
+/** Parameters of function `name` defined in `text`, undefined if it's not defined there */
+export function definitionParams(text: string, name: string) {
+    return fileParams(text).get(name);
+}
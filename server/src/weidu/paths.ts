@@ -0,0 +1,221 @@
+/**
+ * File paths in TP2
+ *
+ * WeiDU runs in the game directory, so paths are relative to it: `~mymod/lib/x.tpa~`.
+ * The game directory is the parent of the mod folder, the closest directory with the mod's tp2.
+ * `%MOD_FOLDER%` and string variables set to literals with `OUTER_SPRINT` are expanded,
+ * paths with other variables are skipped.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Position } from "vscode-languageserver/node";
+import { uriToPath } from "../common";
+import { FilePath, normalize, PathPrefix, splitPrefix } from "../paths";
+import { codeTokens, Token, tokenize, tokenSubRange } from "./lexer";
+import { displayText } from "./symbols";
+
+/** Keywords taking paths, and which of the string arguments are paths */
+// eslint-disable-next-line no-unused-vars
+const pathArgs = new Map<string, (index: number) => boolean>([
+    ["INCLUDE", () => true],
+    ["PATCH_INCLUDE", () => true],
+    ["REINCLUDE", () => true],
+    ["PATCH_REINCLUDE", () => true],
+    ["LOAD_TRA", () => true],
+    ["COMPILE", () => true],
+    // `COPY ~src~ ~dest~ ~src2~ ~dest2~`, destinations are not checked
+    ["COPY", (index) => index % 2 == 0],
+    ["COPY_LARGE", (index) => index % 2 == 0],
+    // `EXTEND_TOP ~existing.bcs~ ~mymod/x.baf~`
+    ["EXTEND_TOP", (index) => index == 1],
+    ["EXTEND_BOTTOM", (index) => index == 1],
+]);
+/** Words allowed between a keyword and its paths */
+const modifiers = new Set(["EVALUATE_BUFFER", "+", "-"]);
+const stringAssignments = new Set(["OUTER_SPRINT", "OUTER_TEXT_SPRINT", "SPRINT", "TEXT_SPRINT"]);
+
+interface ModLocation {
+    gameDir: string;
+    /** Unknown for tp2 files placed directly in the game directory */
+    modFolder?: string;
+}
+
+/**
+ * Mod folder is the closest directory with `name.tp2` or `setup-name.tp2`.
+ * Other tp2 files mean the directory is the game directory itself, the old mod layout.
+ */
+function modLocation(filePath: string) {
+    let dir = path.dirname(filePath);
+    for (;;) {
+        let tp2: string[] = [];
+        try {
+            tp2 = fs
+                .readdirSync(dir)
+                .map((x) => x.toLowerCase())
+                .filter((x) => x.endsWith(".tp2"));
+        } catch {
+            // unreadable directory, keep going up
+        }
+        if (tp2.length > 0) {
+            const name = path.basename(dir).toLowerCase();
+            if (tp2.includes(`${name}.tp2`) || tp2.includes(`setup-${name}.tp2`)) {
+                const result: ModLocation = {
+                    gameDir: path.dirname(dir),
+                    modFolder: path.basename(dir),
+                };
+                return result;
+            }
+            const result: ModLocation = { gameDir: dir };
+            return result;
+        }
+        const parent = path.dirname(dir);
+        if (parent == dir) {
+            return;
+        }
+        dir = parent;
+    }
+}
+
+/** String variables assigned a literal value, at their first assignment */
+function stringVariables(code: Token[]) {
+    const result = new Map<string, string>();
+    code.forEach((token, i) => {
+        const name = code[i + 1];
+        const value = code[i + 2];
+        if (token.kind != "word" || !stringAssignments.has(token.value) || !name || !value) {
+            return;
+        }
+        if (value.kind != "string" || value.value.startsWith("%")) {
+            return;
+        }
+        const variable = displayText(name);
+        if (!result.has(variable)) {
+            result.set(variable, displayText(value));
+        }
+    });
+    return result;
+}
+
+/** Replace known `%name%`, undefined if unknown ones remain */
+function expand(value: string, variables: Map<string, string>) {
+    // values may refer to other variables
+    for (let i = 0; i < 10 && value.includes("%"); i++) {
+        value = value.replace(/%(\w+)%/g, (match, name) => variables.get(name) ?? match);
+    }
+    if (!/%\w+%/.test(value)) {
+        return value;
+    }
+}
+
+/** Strings that are paths, in code tokens */
+function pathTokens(code: Token[]) {
+    const result: Token[] = [];
+    code.forEach((token, i) => {
+        const isPath = token.kind == "word" ? pathArgs.get(token.value) : undefined;
+        if (!isPath) {
+            return;
+        }
+        let index = 0;
+        for (let j = i + 1; j < code.length; j++) {
+            const arg = code[j];
+            if (arg.kind == "word" && modifiers.has(arg.value)) {
+                continue;
+            }
+            if (arg.kind != "string") {
+                break;
+            }
+            if (isPath(index)) {
+                result.push(arg);
+            }
+            index++;
+        }
+    });
+    return result;
+}
+
+/** Length of the opening quote. `%var%` strings are variables, the percent signs are kept. */
+function quoteLength(token: Token) {
+    if (token.value.startsWith("~~~~~")) {
+        return 5;
+    }
+    return token.value.startsWith("%") ? 0 : 1;
+}
+
+function isTerminated(value: string, quote: number) {
+    return value.length >= 2 * quote && value.endsWith(value.slice(0, quote));
+}
+
+/** Path without quotes. Strings being typed may be unterminated. */
+function pathValue(token: Token) {
+    const quote = quoteLength(token);
+    const end = isTerminated(token.value, quote) ? token.value.length - quote : token.value.length;
+    return token.value.slice(quote, end);
+}
+
+/** Variables known in the file, including `MOD_FOLDER` */
+function knownVariables(code: Token[], location: ModLocation) {
+    const result = stringVariables(code);
+    if (location.modFolder) {
+        result.set("MOD_FOLDER", location.modFolder);
+    }
+    return result;
+}
+
+export function filePaths(uri: string, text: string) {
+    const code = codeTokens(tokenize(text));
+    const tokens = pathTokens(code);
+    if (tokens.length == 0) {
+        return [];
+    }
+    const location = modLocation(uriToPath(uri));
+    const variables = location ? knownVariables(code, location) : new Map<string, string>();
+    return tokens.map((token) => {
+        const value = pathValue(token);
+        const expanded = expand(value, variables);
+        const result: FilePath = {
+            value: value,
+            range: tokenSubRange(token, quoteLength(token), value.length),
+            candidates:
+                location && expanded ? [path.resolve(location.gameDir, normalize(expanded))] : [],
+        };
+        return result;
+    });
+}
+
+/** Position is inside the quotes. Strings being typed may be unterminated. */
+function inString(token: Token, position: Position) {
+    if (token.line != position.line) {
+        return false;
+    }
+    const quote = quoteLength(token);
+    const offset = position.character - token.character;
+    const firstLine = token.value.split("\n")[0];
+    const end = isTerminated(firstLine, quote) ? firstLine.length - quote : firstLine.length;
+    return quote <= offset && offset <= end;
+}
+
+/** Path being typed at the position, if it's in a path string */
+export function pathPrefix(uri: string, text: string, position: Position) {
+    const code = codeTokens(tokenize(text));
+    const token = pathTokens(code).find((x) => inString(x, position));
+    if (!token) {
+        return;
+    }
+    const location = modLocation(uriToPath(uri));
+    if (!location) {
+        return;
+    }
+    const quote = quoteLength(token);
+    const value = token.value.slice(quote, position.character - token.character);
+    const prefix = splitPrefix(value, position);
+    const dir = expand(prefix.dir, knownVariables(code, location));
+    if (dir === undefined) {
+        return;
+    }
+    const result: PathPrefix = {
+        dirs: [path.resolve(location.gameDir, normalize(dir))],
+        range: prefix.range,
+    };
+    return result;
+}
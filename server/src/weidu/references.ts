@@ -0,0 +1,200 @@
+/**
+ * WeiDU function references
+ *
+ * Functions and macros are found at their definitions and call sites. Function parameters are
+ * found in the definition header, in the function body, including `%name%` in strings,
+ * and at call sites. All WeiDU files in the workspace are searched, which covers included files.
+ */
+
+import * as path from "path";
+import { Position } from "vscode-languageserver/node";
+import { findFiles, openDocumentsByPath, readFile, uriToPath } from "../common";
+import { Reference } from "../references";
+import { findCalls } from "./calls";
+import {
+    codeTokens,
+    containsPosition,
+    rangeContains,
+    Token,
+    tokenize,
+    tokenRange,
+    tokenSubRange,
+} from "./lexer";
+import { headerParamTokens } from "./params";
+import { definitionRegex, structure } from "./tp2";
+
+/** Function or macro, or a parameter of a function */
+export interface Target {
+    name: string;
+    param?: string;
+}
+
+const extensions = ["tp2", "tpa", "tph", "tpp"];
+
+/** Definitions in code tokens: index of the name, function body */
+function definitions(code: Token[]) {
+    const { blocks } = structure(code);
+    const result: { nameIndex: number; body?: { start: number; end: number } }[] = [];
+    for (const block of blocks) {
+        if (!block.header || !definitionRegex.test(block.header.value)) {
+            continue;
+        }
+        const nameIndex = code.indexOf(block.header) + 1;
+        const start = code.indexOf(block.open);
+        const end = block.close ? code.indexOf(block.close) : code.length;
+        result.push({ nameIndex: nameIndex, body: { start: start, end: end } });
+    }
+    return result;
+}
+
+/** `%name%` inside a token, for variables in strings */
+function interpolations(token: Token, name: string) {
+    const result: { index: number; length: number }[] = [];
+    const pattern = `%${name}%`;
+    let index = token.value.indexOf(pattern);
+    while (index != -1) {
+        result.push({ index: index + 1, length: name.length });
+        index = token.value.indexOf(pattern, index + pattern.length);
+    }
+    return result;
+}
+
+/** Function or parameter at the position */
+export function targetAt(text: string, position: Position) {
+    const code = codeTokens(tokenize(text));
+    const index = code.findIndex((x) => containsPosition(x, position));
+    const token = code[index];
+    if (!token || token.kind == "operator") {
+        return;
+    }
+
+    for (const call of findCalls(code)) {
+        if (call.name == token) {
+            const result: Target = { name: token.value };
+            return result;
+        }
+        if (call.args.some((x) => x.name == token)) {
+            const result: Target = { name: call.name.value, param: token.value };
+            return result;
+        }
+    }
+
+    for (const definition of definitions(code)) {
+        const name = code[definition.nameIndex].value;
+        if (definition.nameIndex == index) {
+            const result: Target = { name: name };
+            return result;
+        }
+        const params = headerParamTokens(code, definition.nameIndex);
+        if (params.some((x) => x.index == index)) {
+            const result: Target = { name: name, param: token.value };
+            return result;
+        }
+        const body = definition.body;
+        if (body && body.start < index && index < body.end) {
+            // a parameter used in the body, possibly as `%name%`
+            const param = params.find(
+                (x) =>
+                    x.token.value == token.value ||
+                    interpolations(token, x.token.value).some((y) =>
+                        rangeContains(tokenSubRange(token, y.index, y.length), position)
+                    )
+            );
+            if (param) {
+                const result: Target = { name: name, param: param.token.value };
+                return result;
+            }
+        }
+    }
+}
+
+function functionReferences(uri: string, code: Token[], name: string) {
+    const result: Reference[] = [];
+    for (const definition of definitions(code)) {
+        const token = code[definition.nameIndex];
+        if (token.value == name) {
+            result.push({ uri: uri, range: tokenRange(token), definition: true });
+        }
+    }
+    for (const call of findCalls(code)) {
+        if (call.name.value == name) {
+            result.push({ uri: uri, range: tokenRange(call.name), definition: false });
+        }
+    }
+    return result;
+}
+
+function paramReferences(uri: string, code: Token[], name: string, param: string) {
+    const result: Reference[] = [];
+    for (const definition of definitions(code)) {
+        if (code[definition.nameIndex].value != name) {
+            continue;
+        }
+        for (const x of headerParamTokens(code, definition.nameIndex)) {
+            if (x.token.value == param) {
+                result.push({ uri: uri, range: tokenRange(x.token), definition: true });
+            }
+        }
+        const body = definition.body;
+        if (!body) {
+            continue;
+        }
+        for (const token of code.slice(body.start + 1, body.end)) {
+            if (token.kind == "word" && token.value == param) {
+                result.push({ uri: uri, range: tokenRange(token), definition: false });
+                continue;
+            }
+            for (const x of interpolations(token, param)) {
+                const range = tokenSubRange(token, x.index, x.length);
+                result.push({ uri: uri, range: range, definition: false });
+            }
+        }
+    }
+    for (const call of findCalls(code)) {
+        if (call.name.value != name) {
+            continue;
+        }
+        for (const arg of call.args) {
+            if (arg.name.value == param) {
+                result.push({ uri: uri, range: tokenRange(arg.name), definition: false });
+            }
+        }
+    }
+    return result;
+}
+
+function fileReferences(uri: string, text: string, target: Target) {
+    const code = codeTokens(tokenize(text));
+    if (target.param === undefined) {
+        return functionReferences(uri, code, target.name);
+    }
+    return paramReferences(uri, code, target.name, target.param);
+}
+
+/**
+ * References in the document and all WeiDU files in the workspace.
+ * Open documents are searched in their current, possibly unsaved, state.
+ */
+export function findReferences(uri: string, text: string, target: Target, workspaceRoot: string) {
+    const result = fileReferences(uri, text, target);
+    if (!workspaceRoot) {
+        return result;
+    }
+    const openDocuments = openDocumentsByPath();
+    const currentPath = uriToPath(uri);
+    for (const ext of extensions) {
+        for (const relPath of findFiles(workspaceRoot, ext)) {
+            const filePath = path.join(workspaceRoot, relPath);
+            if (filePath == currentPath) {
+                continue;
+            }
+            const file = readFile(filePath, openDocuments);
+            // quick check before tokenizing
+            if (!file || !file.text.includes(target.name)) {
+                continue;
+            }
+            result.push(...fileReferences(file.uri, file.text, target));
+        }
+    }
+    return result;
+}
@@ -0,0 +1,23 @@
+/**
+ * WeiDU signature help requests
+ *
+ * Parameters are passed by name, so the request carries the current section
+ * and the name of the parameter being written rather than its index.
+ */
+
+import { Position } from "vscode-languageserver/node";
+import { Request } from "../signature";
+import { callAt } from "./calls";
+
+/** Finds the function being called and the parameter being written */
+export function getRequest(text: string, position: Position) {
+    const call = callAt(text, position);
+    if (!call) {
+        return;
+    }
+    const request: Request = { symbol: call.name, parameter: 0 };
+    if (!call.macro) {
+        request.named = { section: call.section, name: call.param };
+    }
+    return request;
+}
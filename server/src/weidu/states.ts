@@ -0,0 +1,255 @@
+/**
+ * WeiDU D states
+ *
+ * Outline of dialogs and their states, navigation from `GOTO`, `EXTERN` and other references
+ * to the referenced state, and completion of state labels. A dialog is often built from
+ * several D files, so states of other dialogs are looked up in all D files in the workspace.
+ */
+
+import * as path from "path";
+import {
+    CompletionItem,
+    CompletionItemKind,
+    DocumentSymbol,
+    FileSystemWatcher,
+    Location,
+    Position,
+    SymbolInformation,
+    SymbolKind,
+} from "vscode-languageserver/node";
+import { findFiles, openDocumentsByPath, pathToUri, readFile, uriToPath } from "../common";
+import { TraEntries } from "../translation";
+import { Dialog, DialogFile, dialogStates, parse, State, StateLocation } from "./dialog";
+import { codeTokens, containsPosition, isWord, tokenEnd, tokenize, tokenRange } from "./lexer";
+import { displayText, makeSymbol, spanRange } from "./symbols";
+
+function stateSymbol(state: State, tra?: TraEntries) {
+    const name = state.label ? displayText(state.label) : "";
+    const say = state.say[0] ? displayText(state.say[0].text, tra) : "";
+    return makeSymbol(
+        name,
+        SymbolKind.Function,
+        spanRange(state.start, state.end),
+        tokenRange(state.label || state.start),
+        say
+    );
+}
+
+/**
+ * Dialog sections with their states, and chains.
+ * @param tra entries of the tra file of the document, to show state texts
+ */
+export function symbols(text: string, tra?: TraEntries) {
+    const dialog = parse(text);
+    const result: DocumentSymbol[] = [];
+    for (const section of dialog.sections) {
+        const symbol = makeSymbol(
+            section.dialog,
+            SymbolKind.Module,
+            spanRange(section.keyword, section.end),
+            tokenRange(section.file),
+            section.keyword.value
+        );
+        symbol.children = section.states.map((x) => stateSymbol(x, tra));
+        result.push(symbol);
+    }
+    for (const state of dialog.states) {
+        if (isWord(state.start, "CHAIN")) {
+            const symbol = stateSymbol(state, tra);
+            symbol.detail = `CHAIN ${state.dialog}`;
+            result.push(symbol);
+        }
+    }
+    result.sort((a, b) => {
+        if (a.range.start.line != b.range.start.line) {
+            return a.range.start.line - b.range.start.line;
+        }
+        return a.range.start.character - b.range.start.character;
+    });
+    return result;
+}
+
+/** D files of the workspace, found once and updated by file events */
+let dialogFiles: { workspaceRoot: string; paths: Set<string> } | undefined;
+/** Parsed D files by path. Open documents are reparsed when their text changes. */
+const parsedDialogs = new Map<string, { text: string; dialog: Dialog; open: boolean }>();
+
+function workspaceDialogPaths(workspaceRoot: string) {
+    if (dialogFiles?.workspaceRoot != workspaceRoot) {
+        const paths = findFiles(workspaceRoot, "d").map((x) => path.join(workspaceRoot, x));
+        dialogFiles = { workspaceRoot: workspaceRoot, paths: new Set(paths) };
+    }
+    return dialogFiles.paths;
+}
+
+/** Watcher for D files of the workspace, to keep the cache up to date */
+export function dialogWatchers(workspaceRoot: string) {
+    if (!workspaceRoot) {
+        return [];
+    }
+    const watcher: FileSystemWatcher = {
+        globPattern: { baseUri: pathToUri(workspaceRoot), pattern: "**/*.d" },
+    };
+    return [watcher];
+}
+
+/** D file created, changed or deleted on disk */
+export function dialogFileChanged(uri: string, deleted: boolean) {
+    const filePath = uriToPath(uri);
+    if (!filePath.toLowerCase().endsWith(".d")) {
+        return;
+    }
+    parsedDialogs.delete(filePath);
+    if (deleted) {
+        dialogFiles?.paths.delete(filePath);
+    } else {
+        dialogFiles?.paths.add(filePath);
+    }
+}
+
+/** Parsed D files of the workspace, open documents in their current state */
+function cachedDialogs(workspaceRoot: string) {
+    const result: (DialogFile & { filePath: string; text: string })[] = [];
+    const openDocuments = openDocumentsByPath();
+    for (const filePath of workspaceDialogPaths(workspaceRoot)) {
+        const document = openDocuments.get(filePath);
+        let parsed = parsedDialogs.get(filePath);
+        // closed documents may have been left unsaved
+        if (!parsed || (document ? parsed.text != document.getText() : parsed.open)) {
+            const file = readFile(filePath, openDocuments);
+            if (!file) {
+                continue;
+            }
+            parsed = { text: file.text, dialog: parse(file.text), open: document !== undefined };
+            parsedDialogs.set(filePath, parsed);
+        }
+        const uri = document?.uri || pathToUri(filePath);
+        result.push({ uri: uri, dialog: parsed.dialog, filePath: filePath, text: parsed.text });
+    }
+    return result;
+}
+
+/** Other D files in the workspace, which may contain `dialog` */
+export function workspaceDialogs(uri: string, workspaceRoot: string, dialog?: string) {
+    const result: DialogFile[] = [];
+    if (!workspaceRoot) {
+        return result;
+    }
+    const currentPath = uriToPath(uri);
+    for (const file of cachedDialogs(workspaceRoot)) {
+        if (file.filePath == currentPath) {
+            continue;
+        }
+        if (dialog && !file.text.toLowerCase().includes(dialog)) {
+            continue;
+        }
+        result.push({ uri: file.uri, dialog: file.dialog });
+    }
+    return result;
+}
+
+/** Labeled states of all D files in the workspace, in their dialogs */
+export function workspaceSymbols(workspaceRoot: string) {
+    const result: SymbolInformation[] = [];
+    if (!workspaceRoot) {
+        return result;
+    }
+    for (const file of cachedDialogs(workspaceRoot)) {
+        for (const state of file.dialog.states) {
+            if (!state.label) {
+                continue;
+            }
+            const name = displayText(state.label);
+            const range = tokenRange(state.label);
+            result.push(
+                SymbolInformation.create(name, SymbolKind.Function, range, file.uri, state.dialog)
+            );
+        }
+    }
+    return result;
+}
+
+/** States of `name` in the document, then in other D files in the workspace */
+export function findStates(uri: string, dialog: Dialog, name: string, workspaceRoot: string) {
+    const files = [{ uri: uri, dialog: dialog }, ...workspaceDialogs(uri, workspaceRoot, name)];
+    return dialogStates(name, files);
+}
+
+/** State referred to at the position, by `GOTO`, `EXTERN`, `EXTEND_TOP`, etc. */
+export function definition(uri: string, text: string, position: Position, workspaceRoot: string) {
+    const dialog = parse(text);
+    const ref = dialog.refs.find((x) => x.label && containsPosition(x.label, position));
+    if (!ref?.label) {
+        return;
+    }
+    const label = displayText(ref.label);
+    const result: Location[] = [];
+    for (const x of findStates(uri, dialog, ref.dialog, workspaceRoot)) {
+        if (x.state.label && displayText(x.state.label) == label) {
+            result.push(Location.create(x.uri, tokenRange(x.state.label)));
+        }
+    }
+    return result;
+}
+
+function isBefore(a: Position, b: Position) {
+    return a.line < b.line || (a.line == b.line && a.character <= b.character);
+}
+
+/** Code token before the position, skipping the word being typed */
+function previousToken(text: string, position: Position) {
+    const before = codeTokens(tokenize(text)).filter((x) => isBefore(tokenEnd(x), position));
+    const last = before[before.length - 1];
+    if (last && isBefore(position, tokenEnd(last))) {
+        return before[before.length - 2];
+    }
+    return last;
+}
+
+function labelCompletion(states: StateLocation[]) {
+    const labels = new Map<string, CompletionItem>();
+    for (const x of states) {
+        if (!x.state.label) {
+            continue;
+        }
+        const label = displayText(x.state.label);
+        if (!labels.has(label)) {
+            labels.set(label, {
+                label: label,
+                kind: CompletionItemKind.Reference,
+                detail: x.state.dialog,
+            });
+        }
+    }
+    return [...labels.values()];
+}
+
+function dialogCompletion(uri: string, dialog: Dialog, workspaceRoot: string) {
+    const names = new Set<string>();
+    for (const x of [dialog, ...workspaceDialogs(uri, workspaceRoot).map((y) => y.dialog)]) {
+        x.states.forEach((state) => names.add(state.dialog));
+        x.sections.forEach((section) => names.add(section.dialog));
+    }
+    return [...names].map((name) => {
+        const item: CompletionItem = { label: name, kind: CompletionItemKind.Module };
+        return item;
+    });
+}
+
+/** Labels after `GOTO`, `EXTERN file` and similar, dialogs after `EXTERN` */
+export function completion(uri: string, text: string, position: Position, workspaceRoot: string) {
+    const previous = previousToken(text, position);
+    if (!previous) {
+        return;
+    }
+    const dialog = parse(text);
+    if (isWord(previous, "EXTERN") || isWord(previous, "IF_FILE_EXISTS")) {
+        return dialogCompletion(uri, dialog, workspaceRoot);
+    }
+    const ref = dialog.refs.find((x) =>
+        x.file ? x.file.start == previous.start : x.keyword.start == previous.start
+    );
+    if (ref) {
+        return labelCompletion(findStates(uri, dialog, ref.dialog, workspaceRoot));
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * WeiDU document symbols
+ *
+ * TP2 outline: `BACKUP`, `AUTHOR` and `LANGUAGE` headers, components with their flags,
+ * function and macro definitions.
+ */
+
+import { DocumentSymbol, Range, SymbolKind } from "vscode-languageserver/node";
+import { TraEntries } from "../translation";
+import { codeTokens, isWord, Token, tokenEnd, tokenize, tokenRange, tokenStart } from "./lexer";
+import { Block, definitionRegex, structure } from "./tp2";
+
+const headerKeywords = new Set(["BACKUP", "AUTHOR", "SUPPORT", "LANGUAGE"]);
+
+/**
+ * Unquoted string, or translation of a tra reference
+ * @param tra entries of the tra file of the document
+ */
+export function displayText(token: Token, tra?: TraEntries) {
+    const value = token.value;
+    if (token.kind == "string") {
+        const quote = value.startsWith("~~~~~") ? 5 : 1;
+        return value.slice(quote, Math.max(value.length - quote, quote));
+    }
+    if (/^@\d+$/.test(value)) {
+        const entry = tra?.get(value.slice(1));
+        if (entry) {
+            return entry.source;
+        }
+    }
+    return value;
+}
+
+export function spanRange(first: Token, last: Token): Range {
+    return { start: tokenStart(first), end: tokenEnd(last) };
+}
+
+export function makeSymbol(
+    name: string,
+    kind: SymbolKind,
+    range: Range,
+    selectionRange: Range,
+    detail?: string
+) {
+    const symbol: DocumentSymbol = {
+        // VS Code refuses empty names
+        name: name.trim() || " ",
+        kind: kind,
+        range: range,
+        selectionRange: selectionRange,
+    };
+    if (detail) {
+        symbol.detail = detail;
+    }
+    return symbol;
+}
+
+/** `DEFINE_ACTION_FUNCTION name ... BEGIN ... END` */
+function definitionSymbol(code: Token[], block: Block) {
+    const header = block.header as Token;
+    const index = code.indexOf(header);
+    const name = code[index + 1];
+    if (!name || name.kind != "word" || name == block.open) {
+        return;
+    }
+    const [, context, dtype] = header.value.toLowerCase().split("_");
+    const kind = dtype == "macro" ? SymbolKind.Field : SymbolKind.Function;
+    const last = block.close || block.open;
+    return makeSymbol(
+        name.value,
+        kind,
+        spanRange(header, last),
+        tokenRange(name),
+        `${context} ${dtype}`
+    );
+}
+
+/** Component flags: `DESIGNATED`, `LABEL`, `GROUP` */
+function componentSymbol(code: Token[], start: number, end: number, tra?: TraEntries) {
+    const begin = code[start];
+    const nameToken = start < end ? code[start + 1] : undefined;
+    const details: string[] = [];
+    const children: DocumentSymbol[] = [];
+    for (let i = start + 1; i < end; i++) {
+        const token = code[i];
+        const value = code[i + 1];
+        if (isWord(token, "DESIGNATED")) {
+            details.push(`DESIGNATED ${value.value}`);
+        } else if (isWord(token, "LABEL")) {
+            details.push(`LABEL ${displayText(value)}`);
+        } else if (isWord(token, "GROUP")) {
+            const range = spanRange(token, value);
+            children.push(
+                makeSymbol(displayText(value, tra), SymbolKind.Namespace, range, range, "GROUP")
+            );
+        }
+    }
+    const name = nameToken ? displayText(nameToken, tra) : "BEGIN";
+    const symbol = makeSymbol(
+        name,
+        SymbolKind.Module,
+        spanRange(begin, code[end]),
+        tokenRange(nameToken || begin),
+        details.join(", ")
+    );
+    symbol.children = children;
+    return symbol;
+}
+
+/**
+ * Hierarchical outline of a TP2 file.
+ * Definitions inside components are their children.
+ * @param tra entries of the tra file of the document, to show component names
+ */
+export function tp2(text: string, tra?: TraEntries) {
+    const code = codeTokens(tokenize(text));
+    const { blocks, components } = structure(code);
+    const symbols: DocumentSymbol[] = [];
+
+    const headersEnd = components.length > 0 ? components[0].start : code.length;
+    for (let i = 0; i < headersEnd - 1; i++) {
+        const token = code[i];
+        const value = code[i + 1];
+        const hasValue = value.kind == "string" || /^@\d+$/.test(value.value);
+        if (token.kind == "word" && headerKeywords.has(token.value) && hasValue) {
+            symbols.push(
+                makeSymbol(
+                    token.value,
+                    SymbolKind.Property,
+                    spanRange(token, value),
+                    tokenRange(token),
+                    displayText(value, tra)
+                )
+            );
+        }
+    }
+
+    const componentSymbols = components.map((x) => componentSymbol(code, x.start, x.end, tra));
+    symbols.push(...componentSymbols);
+
+    for (const block of blocks) {
+        if (!block.header || !definitionRegex.test(block.header.value)) {
+            continue;
+        }
+        const symbol = definitionSymbol(code, block);
+        if (!symbol) {
+            continue;
+        }
+        const index = code.indexOf(block.header);
+        const parent = components.findIndex((x) => x.start < index && index <= x.end);
+        if (parent == -1) {
+            symbols.push(symbol);
+        } else {
+            componentSymbols[parent].children?.push(symbol);
+        }
+    }
+
+    symbols.sort((a, b) => {
+        if (a.range.start.line != b.range.start.line) {
+            return a.range.start.line - b.range.start.line;
+        }
+        return a.range.start.character - b.range.start.character;
+    });
+    return symbols;
+}
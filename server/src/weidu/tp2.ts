@@ -0,0 +1,166 @@
+/**
+ * WeiDU TP2 structure
+ *
+ * Components and blocks, found from tokens. Components start with `BEGIN` and a name outside of
+ * any block and run until the next component. Blocks are `BEGIN..END` pairs, possibly preceded by a header
+ * such as `ACTION_IF`, and constructs closed by `END` without a `BEGIN`, such as `LAF`.
+ */
+
+import { codeTokens, isWord, Token } from "./lexer";
+
+/** Keywords that are followed by a `BEGIN..END` block */
+export const blockKeywords = new Set([
+    "ACTION_IF",
+    "PATCH_IF",
+    "ELSE",
+    "WHILE",
+    "OUTER_WHILE",
+    "FOR",
+    "OUTER_FOR",
+    "ACTION_FOR_EACH",
+    "PATCH_FOR_EACH",
+    "ACTION_PHP_EACH",
+    "PHP_EACH",
+    "PATCH_PHP_EACH",
+    "ACTION_BASH_FOR",
+    "PATCH_BASH_FOR",
+    "ACTION_DEFINE_ARRAY",
+    "DEFINE_ARRAY",
+    "PATCH_DEFINE_ARRAY",
+    "ACTION_DEFINE_ASSOCIATIVE_ARRAY",
+    "DEFINE_ASSOCIATIVE_ARRAY",
+    "PATCH_DEFINE_ASSOCIATIVE_ARRAY",
+    "INNER_ACTION",
+    "INNER_PATCH",
+    "INNER_PATCH_SAVE",
+    "INNER_PATCH_FILE",
+    "OUTER_PATCH",
+    "OUTER_PATCH_SAVE",
+    "OUTER_INNER_PATCH",
+    "OUTER_INNER_PATCH_SAVE",
+    "WITH_SCOPE",
+    "PATCH_WITH_SCOPE",
+    "WITH_TRA",
+    "ACTION_WITH_TRA",
+    "PATCH_WITH_TRA",
+    "ACTION_TIME",
+    "PATCH_TIME",
+    "REPLACE_EVALUATE",
+    "ALTER_TLK",
+    "ALTER_TLK_RANGE",
+    "ALTER_TLK_LIST",
+    "DECOMPILE_AND_PATCH",
+    "EDIT_SAV_FILE",
+    "MAKE_BIFF",
+]);
+
+/** `DEFINE_ACTION_FUNCTION`, `DEFINE_PATCH_MACRO`, etc. */
+export const definitionRegex = /^DEFINE_\w+_(FUNCTION|MACRO)$/;
+
+/** Constructs closed by `END` without a `BEGIN` */
+export const endKeywords = new Set([
+    "ALWAYS",
+    "LAF",
+    "LPF",
+    "LAUNCH_ACTION_FUNCTION",
+    "LAUNCH_PATCH_FUNCTION",
+    "ACTION_MATCH",
+    "PATCH_MATCH",
+    "ACTION_TRY",
+    "PATCH_TRY",
+]);
+
+export interface Block {
+    /** `BEGIN`, or a keyword closed by `END`, such as `LAF` */
+    open: Token;
+    /** Keyword preceding `BEGIN`, such as `ACTION_IF` or `DEFINE_ACTION_FUNCTION` */
+    header?: Token;
+    /** Absent for unbalanced blocks */
+    close?: Token;
+}
+
+export interface Component {
+    /** Index of `BEGIN` in code tokens */
+    start: number;
+    /** Index of the last code token of the component */
+    end: number;
+}
+
+/**
+ * Component name after `BEGIN`: a string or a tra reference.
+ * Other `BEGIN`s open blocks, even if their keyword is missing from `blockKeywords`.
+ */
+export function isComponentName(token: Token | undefined) {
+    return token !== undefined && (token.kind == "string" || token.value.startsWith("@"));
+}
+
+/** @param code code tokens, comments skipped */
+export function structure(code: Token[]) {
+    const blocks: Block[] = [];
+    const components: Component[] = [];
+    /** `END` without a block to close */
+    const unmatched: Token[] = [];
+    const open: Block[] = [];
+    let header: Token | undefined;
+
+    code.forEach((token, i) => {
+        if (isWord(token, "BEGIN")) {
+            if (open.length == 0 && !header && isComponentName(code[i + 1])) {
+                const previous = components[components.length - 1];
+                if (previous) {
+                    previous.end = i - 1;
+                }
+                components.push({ start: i, end: code.length - 1 });
+            } else {
+                const block: Block = { open: token, header: header };
+                blocks.push(block);
+                open.push(block);
+                header = undefined;
+            }
+        } else if (isWord(token, "END")) {
+            const block = open.pop();
+            if (block) {
+                block.close = token;
+            } else {
+                unmatched.push(token);
+            }
+        } else if (endKeywords.has(token.value)) {
+            const block: Block = { open: token };
+            blocks.push(block);
+            open.push(block);
+        } else if (blockKeywords.has(token.value) || definitionRegex.test(token.value)) {
+            header = header || token;
+        }
+    });
+    return { blocks: blocks, components: components, unmatched: unmatched };
+}
+
+/** Function or macro definition, `DEFINE_ACTION_FUNCTION name ... BEGIN` */
+export interface Definition {
+    /** `DEFINE_ACTION_FUNCTION`, `DEFINE_DIMORPHIC_FUNCTION`, etc. */
+    keyword: Token;
+    name: Token;
+    /** Index of the name in code tokens */
+    nameIndex: number;
+    /** `/** ... *\/` comment right before the keyword */
+    doc?: Token;
+}
+
+/** Definitions of all DEFINE_* forms, anywhere in the text */
+export function functionDefinitions(tokens: Token[]) {
+    const code = codeTokens(tokens);
+    const result: Definition[] = [];
+    code.forEach((token, i) => {
+        const name = code[i + 1];
+        if (token.kind != "word" || !definitionRegex.test(token.value) || !name) {
+            return;
+        }
+        const definition: Definition = { keyword: token, name: name, nameIndex: i + 1 };
+        const comment = tokens[tokens.indexOf(token) - 1];
+        if (comment?.kind == "comment" && comment.value.startsWith("/**")) {
+            definition.doc = comment;
+        }
+        result.push(definition);
+    });
+    return result;
+}
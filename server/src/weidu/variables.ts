@@ -0,0 +1,211 @@
+/**
+ * WeiDU TP2 variables
+ *
+ * Variables are found by their assignments: `OUTER_SET`, `SPRINT`, `READ_*`, array definitions,
+ * loop variables, function parameters and `RET` values of function calls.
+ * The first assignment in a file is the definition. Scopes are not tracked.
+ * Dynamic names, such as `~%prefix%_name~`, are skipped.
+ */
+
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Hover,
+    Location,
+    MarkupKind,
+} from "vscode-languageserver/node";
+import { findCalls } from "./calls";
+import { codeTokens, isWord, Token, tokenize, tokenRange } from "./lexer";
+import { headerParamTokens } from "./params";
+import { displayText } from "./symbols";
+import { definitionRegex } from "./tp2";
+
+/** Assignment keywords, and how many values precede the variable name */
+const assignments = new Map([
+    ["OUTER_SET", 0],
+    ["SET", 0],
+    ["OUTER_SPRINT", 0],
+    ["SPRINT", 0],
+    ["OUTER_TEXT_SPRINT", 0],
+    ["TEXT_SPRINT", 0],
+    ["OUTER_SNPRINT", 1],
+    ["SNPRINT", 1],
+    ["OUTER_PATCH_SAVE", 0],
+    ["OUTER_INNER_PATCH_SAVE", 0],
+    ["INNER_PATCH_SAVE", 0],
+    ["ACTION_TO_LOWER", 0],
+    ["TO_LOWER", 0],
+    ["ACTION_TO_UPPER", 0],
+    ["TO_UPPER", 0],
+    ["ACTION_GET_STRREF", 1],
+    ["GET_STRREF", 1],
+    ["LOOKUP_IDS_SYMBOL_OF_INT", 0],
+    ["ACTION_DEFINE_ARRAY", 0],
+    ["DEFINE_ARRAY", 0],
+    ["ACTION_DEFINE_ASSOCIATIVE_ARRAY", 0],
+    ["DEFINE_ASSOCIATIVE_ARRAY", 0],
+    ["ACTION_FOR_EACH", 0],
+    ["PATCH_FOR_EACH", 0],
+    ["READ_BYTE", 1],
+    ["READ_SBYTE", 1],
+    ["READ_SHORT", 1],
+    ["READ_SSHORT", 1],
+    ["READ_LONG", 1],
+    ["READ_SLONG", 1],
+    ["READ_ASCII", 1],
+    ["READ_STRREF", 1],
+    ["READ_STRREF_F", 1],
+    ["READ_STRREF_S", 1],
+    ["READ_STRREF_FS", 1],
+    ["READ_2DA_ENTRY", 3],
+    ["READ_2DA_ENTRY_FORMER", 3],
+    ["READ_2DA_ENTRIES_NOW", 0],
+    ["COUNT_2DA_ROWS", 1],
+    ["COUNT_2DA_COLS", 0],
+    ["GET_OFFSET_ARRAY", 0],
+    ["GET_OFFSET_ARRAY2", 0],
+]);
+
+/** `ACTION_PHP_EACH array AS key => value` */
+const phpEach = new Set(["ACTION_PHP_EACH", "PHP_EACH", "PATCH_PHP_EACH"]);
+/** `OUTER_FOR (i = 0; ...)` */
+const forLoops = new Set(["OUTER_FOR", "FOR"]);
+
+export interface Variable {
+    name: string;
+    /** Variable name at the assignment */
+    token: Token;
+    /** Assignment as written, up to the end of the line with the name */
+    statement: string;
+}
+
+/** Name of a variable, unless it's dynamic */
+function variableName(token: Token | undefined) {
+    if (!token || token.kind == "operator" || token.kind == "comment") {
+        return;
+    }
+    if (token.value.includes("%") || (token.kind == "string" && /\s/.test(token.value))) {
+        return;
+    }
+    const name = displayText(token);
+    if (name != "" && !/^-?\d/.test(name)) {
+        return name;
+    }
+}
+
+/** Index after a value: a word, a string or a parenthesized expression */
+function skipValue(code: Token[], i: number) {
+    if (code[i]?.value != "(") {
+        return i + 1;
+    }
+    let depth = 0;
+    for (; i < code.length; i++) {
+        if (code[i].value == "(") {
+            depth++;
+        } else if (code[i].value == ")") {
+            depth--;
+            if (depth == 0) {
+                return i + 1;
+            }
+        }
+    }
+    return i;
+}
+
+/** Tokens of variable names at assignments, in order */
+function assignedNames(code: Token[]) {
+    const result: { keyword: Token; name: Token }[] = [];
+    code.forEach((token, i) => {
+        if (token.kind != "word") {
+            return;
+        }
+        const word = token.value;
+        const skip = assignments.get(word);
+        if (skip !== undefined) {
+            let j = i + 1;
+            for (let k = 0; k < skip; k++) {
+                j = skipValue(code, j);
+            }
+            if (isWord(code[j], "EVALUATE_BUFFER")) {
+                j++;
+            }
+            if (code[j]) {
+                result.push({ keyword: token, name: code[j] });
+            }
+        } else if (phpEach.has(word)) {
+            for (let j = i + 1; j < code.length && !isWord(code[j], "BEGIN"); j++) {
+                if (isWord(code[j], "AS")) {
+                    result.push({ keyword: token, name: code[j + 1] });
+                    if (code[j + 2]?.value == "=>" && code[j + 3]) {
+                        result.push({ keyword: token, name: code[j + 3] });
+                    }
+                    break;
+                }
+            }
+        } else if (forLoops.has(word)) {
+            if (code[i + 1]?.value == "(" && code[i + 3]?.value == "=") {
+                result.push({ keyword: token, name: code[i + 2] });
+            }
+        } else if (definitionRegex.test(word)) {
+            for (const param of headerParamTokens(code, i + 1)) {
+                result.push({ keyword: token, name: param.token });
+            }
+        }
+    });
+    for (const call of findCalls(code)) {
+        for (const arg of call.args) {
+            if (arg.section == "RET" || arg.section == "RET_ARRAY") {
+                result.push({ keyword: call.launcher, name: arg.name });
+            }
+        }
+    }
+    return result.sort((a, b) => a.name.start - b.name.start);
+}
+
+/** Variables of a TP2 file by name, at their first assignment */
+export function findVariables(text: string) {
+    const code = codeTokens(tokenize(text));
+    const result = new Map<string, Variable>();
+    for (const { keyword, name } of assignedNames(code)) {
+        const variable = variableName(name);
+        if (!variable || result.has(variable)) {
+            continue;
+        }
+        let lineEnd = text.indexOf("\n", name.end);
+        if (lineEnd == -1) {
+            lineEnd = text.length;
+        }
+        result.set(variable, {
+            name: variable,
+            token: name,
+            statement: text.slice(keyword.start, lineEnd).trimEnd(),
+        });
+    }
+    return result;
+}
+
+export function hover(variable: Variable) {
+    const result: Hover = {
+        contents: {
+            kind: MarkupKind.Markdown,
+            value: ["```weidu-tp2-tooltip", variable.statement, "```"].join("\n"),
+        },
+    };
+    return result;
+}
+
+export function definition(uri: string, variable: Variable) {
+    const result: Location = { uri: uri, range: tokenRange(variable.token) };
+    return result;
+}
+
+export function completion(variables: Map<string, Variable>) {
+    return [...variables.values()].map((x) => {
+        const item: CompletionItem = {
+            label: x.name,
+            kind: CompletionItemKind.Variable,
+            detail: x.statement,
+        };
+        return item;
+    });
+}
@@ -0,0 +1,170 @@
+/**
+ * WeiDU D walkthrough
+ *
+ * States of a D file with texts resolved from tra, for playing the dialog through in a webview.
+ * Transitions are followed into other dialogs: states they lead to are looked up in the workspace,
+ * texts of other files are resolved from their own tra files.
+ */
+
+import { openDocumentsByPath, readFile, uriToPath } from "../common";
+import { TraEntries } from "../translation";
+import { Dialog, parse, State, Transition } from "./dialog";
+import { isWord, Token } from "./lexer";
+import { findStates } from "./states";
+import { displayText } from "./symbols";
+
+export interface WalkthroughTransition {
+    reply?: string;
+    trigger?: string;
+    action?: string;
+    /** Id of the next state, absent for `EXIT` */
+    next?: string;
+    /** `COPY_TRANS`: transitions of the next state are used instead */
+    copy?: boolean;
+}
+
+export interface WalkthroughState {
+    /** `dialog:label` */
+    id: string;
+    dialog: string;
+    label: string;
+    /** Chains have several speakers */
+    say: { speaker: string; text: string }[];
+    trigger?: string;
+    weight?: number;
+    transitions: WalkthroughTransition[];
+    location: { uri: string; line: number; character: number };
+}
+
+export interface Walkthrough {
+    /** Dialogs of the document, in order */
+    dialogs: string[];
+    /** States of the document, then states of other files they lead to */
+    states: WalkthroughState[];
+}
+
+/** Tra entries for a file */
+// eslint-disable-next-line no-unused-vars
+type TraLoader = (uri: string, text: string) => TraEntries | undefined;
+
+function stateId(dialog: string, label: Token) {
+    return `${dialog}:${displayText(label)}`;
+}
+
+/** Empty strings are left out */
+function optionalText(token?: Token, tra?: TraEntries) {
+    const text = token ? displayText(token, tra).trim() : "";
+    return text == "" ? undefined : text;
+}
+
+function walkthroughTransition(transition: Transition, tra?: TraEntries) {
+    const result: WalkthroughTransition = {
+        reply: optionalText(transition.reply, tra),
+        trigger: optionalText(transition.trigger),
+        action: optionalText(transition.action),
+    };
+    const next = transition.next;
+    if (next?.label) {
+        result.next = stateId(next.dialog, next.label);
+        if (next.keyword.value.startsWith("COPY_TRANS")) {
+            result.copy = true;
+        }
+    }
+    return result;
+}
+
+/** Transitions added to a state by `EXTEND_TOP` and `EXTEND_BOTTOM` of the document */
+function extensionTransitions(dialog: Dialog, id: string, top: boolean) {
+    const result: Transition[] = [];
+    for (const extension of dialog.extensions) {
+        const keyword = extension.states[0]?.keyword;
+        if (!keyword || isWord(keyword, "EXTEND_TOP") != top) {
+            continue;
+        }
+        if (extension.states.some((x) => x.label && stateId(x.dialog, x.label) == id)) {
+            result.push(...extension.transitions);
+        }
+    }
+    return result;
+}
+
+/**
+ * States of the document and all states reachable from them.
+ * @param tra loads tra entries of the document and other D files
+ */
+export function walkthrough(uri: string, text: string, workspaceRoot: string, tra: TraLoader) {
+    const dialog = parse(text);
+    if (dialog.states.length == 0) {
+        return;
+    }
+    const states = new Map<string, WalkthroughState>();
+    const pending: string[] = [];
+    const traEntries = new Map<string, TraEntries | undefined>([[uri, tra(uri, text)]]);
+    const fileTra = (fileUri: string) => {
+        if (!traEntries.has(fileUri)) {
+            const file = readFile(uriToPath(fileUri), openDocumentsByPath());
+            traEntries.set(fileUri, file ? tra(fileUri, file.text) : undefined);
+        }
+        return traEntries.get(fileUri);
+    };
+
+    const add = (fileUri: string, state: State) => {
+        if (!state.label) {
+            return;
+        }
+        const id = stateId(state.dialog, state.label);
+        if (states.has(id)) {
+            return;
+        }
+        const entries = fileTra(fileUri);
+        const transitions = [
+            ...extensionTransitions(dialog, id, true),
+            ...state.transitions,
+            ...extensionTransitions(dialog, id, false),
+        ].map((x) => walkthroughTransition(x, entries));
+        const result: WalkthroughState = {
+            id: id,
+            dialog: state.dialog,
+            label: displayText(state.label),
+            say: state.say.map((x) => ({ speaker: x.dialog, text: displayText(x.text, entries) })),
+            trigger: optionalText(state.trigger),
+            transitions: transitions,
+            location: { uri: fileUri, line: state.label.line, character: state.label.character },
+        };
+        if (state.weight) {
+            result.weight = parseInt(state.weight.value.replace("#", ""));
+        }
+        states.set(id, result);
+        for (const transition of transitions) {
+            if (transition.next) {
+                pending.push(transition.next);
+            }
+        }
+    };
+
+    for (const state of dialog.states) {
+        add(uri, state);
+    }
+    /** States of other dialogs, by dialog */
+    const workspaceStates = new Map<string, ReturnType<typeof findStates>>();
+    while (pending.length > 0) {
+        const id = pending.pop() as string;
+        if (states.has(id)) {
+            continue;
+        }
+        const name = id.slice(0, id.indexOf(":"));
+        if (!workspaceStates.has(name)) {
+            workspaceStates.set(name, findStates(uri, dialog, name, workspaceRoot));
+        }
+        const found = workspaceStates
+            .get(name)
+            ?.find((x) => x.state.label && stateId(x.state.dialog, x.state.label) == id);
+        if (found) {
+            add(found.uri, found.state);
+        }
+    }
+
+    const dialogs = [...new Set(dialog.states.map((x) => x.dialog))];
+    const result: Walkthrough = { dialogs: dialogs, states: [...states.values()] };
+    return result;
+}